@@ -13,6 +13,9 @@
  *   WEBHOOK_SECRET=your-secret-here \
  *   node scripts/send-dummy-events.js
  *
+ * If WEBHOOK_SIGNING_SECRET is set on your Worker, pass it the same way and
+ * each request is signed with HMAC-SHA256.
+ *
  * What it does:
  *   - Creates 10 dummy devices with random Mac models and macOS versions
  *   - Sends 70 started events and 70 matching finished events (7 per device)
@@ -20,6 +23,8 @@
  *   - ~5% of enrollment actions are randomly marked as "failed"
  */
 
+import { createHmac } from 'node:crypto';
+
 const WORKER_URL = process.env.WORKER_URL;
 if (!WORKER_URL) {
   console.error('Error: WORKER_URL environment variable is required.\n');
@@ -29,6 +34,7 @@ if (!WORKER_URL) {
 }
 const WEBHOOK_URL = `${WORKER_URL}/webhook`;
 const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+const WEBHOOK_SIGNING_SECRET = process.env.WEBHOOK_SIGNING_SECRET || '';
 
 const MODELS = [
   { name: 'MacBook Air', identifier: 'Mac14,2' },
@@ -113,16 +119,33 @@ function buildFinishedPayload(device, startedTime, durationSeconds) {
   };
 }
 
+function signBody(body) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = crypto.randomUUID().replace(/-/g, '');
+  const signature = createHmac('sha256', WEBHOOK_SIGNING_SECRET)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest('hex');
+  return {
+    'X-Setup-Manager-Timestamp': timestamp,
+    'X-Setup-Manager-Nonce': nonce,
+    'X-Setup-Manager-Signature': `sha256=${signature}`
+  };
+}
+
 async function sendPayload(payload) {
+  const body = JSON.stringify(payload);
   const headers = { 'Content-Type': 'application/json' };
   if (WEBHOOK_SECRET) {
     headers['Authorization'] = `Bearer ${WEBHOOK_SECRET}`;
   }
+  if (WEBHOOK_SIGNING_SECRET) {
+    Object.assign(headers, signBody(body));
+  }
 
   const response = await fetch(WEBHOOK_URL, {
     method: 'POST',
     headers,
-    body: JSON.stringify(payload)
+    body
   });
 
   if (!response.ok) {
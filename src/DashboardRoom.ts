@@ -1,21 +1,187 @@
-import type { StoredEvent } from "./types";
+import {
+  formatAlertMessage,
+  getEvaluationWindowStart,
+  isThresholdCrossed,
+  type AlertRuleInput,
+} from "./alerts";
+import { EventStore, parseEventQuery, parseStatsQuery } from "./EventStore";
+import {
+  CURRENT_EVENT_SCHEMA_VERSION,
+  migrateStoredEvent,
+  type StoredEventRecord,
+} from "./eventVersions";
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  buildNotificationBody,
+  getEventNotification,
+  getRetryDelay,
+  redactChannel,
+  sendNotification,
+  type Notification,
+  type NotificationChannelInput,
+} from "./notifications";
+import {
+  PII_ACCESS_HEADER,
+  getPiiPolicy,
+  needsServeRedaction,
+  redactEvent,
+  redactRejected,
+  type PiiPolicy,
+} from "./pii";
+import { correlateSessions, getSessionId } from "./sessions";
+import { DEFAULT_TENANT, TENANT_HEADER } from "./tenants";
+import {
+  isKnownEvent,
+  type AuditAction,
+  type EnrollmentSession,
+  type NotificationChannel,
+  type NotificationDeliveryStatus,
+  type ServiceTokenScope,
+  type StoredEvent,
+  type TrackedSession,
+} from "./types";
 
 interface Env {
-  WEBHOOKS: KVNamespace;
+  /**
+   * Legacy KV event store; only read to import events written by older
+   * versions, which all belong to the default tenant
+   */
+  WEBHOOKS?: KVNamespace;
+  STALL_TIMEOUT_MINUTES?: string;
+  STALL_TIMEOUT_BY_MODEL?: string;
+  /** Days raw events and quarantined payloads are kept (default 90) */
+  EVENT_RETENTION_DAYS?: string;
+  /** Days hourly and daily rollups are kept (default: forever) */
+  ROLLUP_RETENTION_DAYS?: string;
+  PII_POLICY?: string;
+  PII_REDACTION?: string;
+  PII_HASH_SECRET?: string;
+}
+
+/** Default time an enrollment may run before it is flagged as stalled */
+const DEFAULT_STALL_TIMEOUT_MINUTES = 60;
+
+/** Stalled sessions that never finish are forgotten after this long */
+const STALLED_SESSION_MAX_AGE = 3 * 24 * 60 * 60 * 1000;
+
+/** Storage key prefix for tracked open sessions */
+const SESSION_KEY_PREFIX = "session:";
+
+/** Raw events are kept for 90 days unless EVENT_RETENTION_DAYS says otherwise */
+const DEFAULT_EVENT_RETENTION_DAYS = 90;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Expired events are purged at most once per interval */
+const PURGE_INTERVAL = 24 * 60 * 60 * 1000;
+
+/** KV keys imported per alarm run, kept well below the per-invocation subrequest limit */
+const LEGACY_IMPORT_BATCH_SIZE = 200;
+
+/** Outdated events rewritten in the current format per alarm run */
+const EVENT_REWRITE_BATCH_SIZE = 500;
+
+/** Notifications sent per alarm run; the alarm runs again right away if more are due */
+const NOTIFICATION_BATCH_SIZE = 20;
+
+/** Alert rules are evaluated at most once per interval */
+const ALERT_EVALUATION_INTERVAL = 60 * 1000;
+
+/**
+ * Stats are recomputed over the whole retention window, so they are
+ * broadcast at most once per interval; later events are sent with the next one
+ */
+const STATS_BROADCAST_INTERVAL = 10 * 1000;
+
+/** WebSocket tag of dashboards that may see personal data in clear */
+const PII_CLEAR_TAG = "pii:clear";
+
+/** Counter of webhook deliveries that were already stored */
+const DUPLICATES_COUNTER = "duplicates-suppressed";
+
+/** Tenant this room serves, as named by the Worker */
+const TENANT_KEY = "tenant";
+
+/** Storage keys for alarm bookkeeping */
+const NEXT_PURGE_KEY = "retention:next-purge";
+const LEGACY_CURSOR_KEY = "legacy-kv:cursor";
+const LEGACY_DONE_KEY = "legacy-kv:done";
+const NEXT_ALERT_EVALUATION_KEY = "alerts:next-evaluation";
+const NEXT_STATS_BROADCAST_KEY = "stats:next-broadcast";
+const STATS_PENDING_KEY = "stats:pending";
+/** Event format version that every stored event has been rewritten to */
+const EVENT_REWRITE_VERSION_KEY = "event-rewrite:version";
+
+/**
+ * Resolve the stall timeout (ms) for a device.
+ * STALL_TIMEOUT_BY_MODEL is a JSON object keyed by model identifier
+ * (e.g. "Mac15,7") or model name (e.g. "Mac Studio") with minutes as values;
+ * the identifier wins when both match. Falls back to STALL_TIMEOUT_MINUTES.
+ */
+function getStallTimeout(env: Env, modelIdentifier: string, modelName: string): number {
+  const globalMinutes = parseFloat(env.STALL_TIMEOUT_MINUTES || "");
+  let minutes = globalMinutes > 0 ? globalMinutes : DEFAULT_STALL_TIMEOUT_MINUTES;
+
+  if (env.STALL_TIMEOUT_BY_MODEL) {
+    try {
+      const byModel = JSON.parse(env.STALL_TIMEOUT_BY_MODEL) as Record<string, unknown>;
+      const override = byModel[modelIdentifier] ?? byModel[modelName];
+      if (typeof override === "number" && override > 0) {
+        minutes = override;
+      }
+    } catch {
+      console.error("STALL_TIMEOUT_BY_MODEL is not valid JSON; using global timeout");
+    }
+  }
+
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Resolve the retention periods (ms) for raw events and for rollups; null
+ * keeps rollups forever. Rollups are never purged before the events they
+ * count, but usually outlive them: erasing a device only takes its remaining
+ * events out of the rollups, and counts from its purged events stay in them.
+ * Rollups hold no serial numbers, only totals per model, macOS version etc.
+ */
+function getRetention(env: Env): { events: number; rollups: number | null } {
+  const eventDays = parseFloat(env.EVENT_RETENTION_DAYS || "");
+  const events = (eventDays > 0 ? eventDays : DEFAULT_EVENT_RETENTION_DAYS) * DAY;
+
+  const rollupDays = parseFloat(env.ROLLUP_RETENTION_DAYS || "");
+  if (!(rollupDays > 0)) return { events, rollups: null };
+  if (rollupDays * DAY < events) {
+    console.error("ROLLUP_RETENTION_DAYS is shorter than EVENT_RETENTION_DAYS; using the event retention");
+  }
+  return { events, rollups: Math.max(rollupDays * DAY, events) };
 }
 
 export class DashboardRoom implements DurableObject {
   private state: DurableObjectState;
   private env: Env;
+  private store: EventStore;
+  private piiPolicy: PiiPolicy;
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
+    this.store = new EventStore(state.storage);
+    this.piiPolicy = getPiiPolicy(env);
+
+    // Make sure pending maintenance (purge, legacy import, event rewrite) gets an alarm
+    state.blockConcurrencyWhile(() => this.scheduleAlarm());
   }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
 
+    // A room learns its tenant from the first request and keeps it
+    const tenant = request.headers.get(TENANT_HEADER);
+    if (tenant && !(await this.state.storage.get<string>(TENANT_KEY))) {
+      await this.state.storage.put(TENANT_KEY, tenant);
+      await this.scheduleAlarm();
+    }
+
     // Handle broadcast from webhook worker
     if (url.pathname === "/broadcast" && request.method === "POST") {
       const message = await request.text();
@@ -41,10 +207,317 @@ export class DashboardRoom implements DurableObject {
       });
     }
 
-    // Handle connection count request
-    if (url.pathname === "/connections" && request.method === "GET") {
+    // Store a webhook event, track its session, then broadcast
+    if (url.pathname === "/event" && request.method === "POST") {
+      const event = migrateStoredEvent((await request.json()) as StoredEventRecord);
+      const stored = this.store.insert(event);
+      if (stored) {
+        await this.trackSession(event);
+        // Redacted once, for dashboards without clear access and for notifications
+        const redacted = needsServeRedaction(this.piiPolicy)
+          ? await redactEvent(event, this.piiPolicy)
+          : event;
+        this.broadcast(
+          JSON.stringify({ type: "setup-manager-event", data: event }),
+          JSON.stringify({ type: "setup-manager-event", data: redacted })
+        );
+        await this.broadcastStats();
+        if (this.queueNotifications((channel) => getEventNotification(channel, redacted))) {
+          await this.scheduleAlarm();
+        }
+      } else {
+        // Retried delivery of an event we already have
+        this.store.incrementCounter(DUPLICATES_COUNTER);
+      }
+      return Response.json({ stored });
+    }
+
+    // Reject replayed signed webhooks by remembering their nonces
+    if (url.pathname === "/nonce" && request.method === "POST") {
+      const { nonce, expiresAt } = (await request.json()) as { nonce: string; expiresAt: number };
+      return Response.json({ fresh: this.store.claimNonce(nonce, expiresAt) });
+    }
+
+    // Webhook token registry; tokens arrive here already hashed
+    if (url.pathname === "/tokens/authenticate" && request.method === "POST") {
+      const { tokenHash } = (await request.json()) as { tokenHash: string | null };
+      return Response.json({
+        token: tokenHash ? this.store.useWebhookToken(tokenHash) : null,
+        enforced: this.store.hasActiveWebhookTokens(),
+      });
+    }
+
+    if (url.pathname === "/tokens" && request.method === "GET") {
+      return Response.json(this.store.listWebhookTokens());
+    }
+
+    if (url.pathname === "/tokens" && request.method === "POST") {
+      const { name, site, tokenHash } = (await request.json()) as {
+        name: string;
+        site: string | null;
+        tokenHash: string;
+      };
+      return Response.json(this.store.createWebhookToken(name, site, tokenHash), { status: 201 });
+    }
+
+    if (url.pathname.startsWith("/tokens/") && request.method === "DELETE") {
+      const token = this.store.revokeWebhookToken(url.pathname.slice("/tokens/".length));
+      if (!token) {
+        return Response.json({ error: "Token not found" }, { status: 404 });
+      }
+      return Response.json(token);
+    }
+
+    // Service token registry for API clients; tokens arrive here already hashed
+    if (url.pathname === "/service-tokens/authenticate" && request.method === "POST") {
+      const { tokenHash } = (await request.json()) as { tokenHash: string };
+      return Response.json({ token: this.store.useServiceToken(tokenHash) });
+    }
+
+    if (url.pathname === "/service-tokens" && request.method === "GET") {
+      return Response.json(this.store.listServiceTokens());
+    }
+
+    if (url.pathname === "/service-tokens" && request.method === "POST") {
+      const { name, scopes, expiresAt, tokenHash } = (await request.json()) as {
+        name: string;
+        scopes: ServiceTokenScope[];
+        expiresAt: number | null;
+        tokenHash: string;
+      };
+      return Response.json(this.store.createServiceToken(name, scopes, expiresAt, tokenHash), {
+        status: 201,
+      });
+    }
+
+    if (url.pathname.startsWith("/service-tokens/") && request.method === "DELETE") {
+      const token = this.store.revokeServiceToken(url.pathname.slice("/service-tokens/".length));
+      if (!token) {
+        return Response.json({ error: "Token not found" }, { status: 404 });
+      }
+      return Response.json(token);
+    }
+
+    // Outbound notification channels and their delivery log
+    if (url.pathname === "/notifications/channels" && request.method === "GET") {
+      return Response.json(this.store.listNotificationChannels().map(redactChannel));
+    }
+
+    if (url.pathname === "/notifications/channels" && request.method === "POST") {
+      const input = (await request.json()) as NotificationChannelInput;
+      return Response.json(redactChannel(this.store.createNotificationChannel(input)), {
+        status: 201,
+      });
+    }
+
+    if (url.pathname.startsWith("/notifications/channels/") && request.method === "DELETE") {
+      const channel = this.store.deleteNotificationChannel(
+        url.pathname.slice("/notifications/channels/".length),
+      );
+      if (!channel) {
+        return Response.json({ error: "Channel not found" }, { status: 404 });
+      }
+      return Response.json(redactChannel(channel));
+    }
+
+    if (url.pathname === "/notifications/deliveries" && request.method === "GET") {
+      const limit = parseInt(url.searchParams.get("limit") || "100", 10);
+      const status = url.searchParams.get("status") as NotificationDeliveryStatus | null;
+      return Response.json(this.store.listNotificationDeliveries(limit, status ?? undefined));
+    }
+
+    // Alert rules and the alerts they raise
+    if (url.pathname === "/alerts" && request.method === "GET") {
+      const limit = parseInt(url.searchParams.get("limit") || "100", 10);
+      const state = url.searchParams.get("state") as "active" | "resolved" | null;
+      return Response.json(this.store.listAlerts(limit, state ?? undefined));
+    }
+
+    if (url.pathname === "/alerts/rules" && request.method === "GET") {
+      return Response.json(this.store.listAlertRules());
+    }
+
+    if (url.pathname === "/alerts/rules" && request.method === "POST") {
+      const input = (await request.json()) as AlertRuleInput;
+      const rule = this.store.createAlertRule(input);
+      // Evaluate the new rule right away
+      await this.state.storage.delete(NEXT_ALERT_EVALUATION_KEY);
+      await this.scheduleAlarm();
+      return Response.json(rule, { status: 201 });
+    }
+
+    if (url.pathname.startsWith("/alerts/rules/") && request.method === "DELETE") {
+      const ruleId = url.pathname.slice("/alerts/rules/".length);
+      const active = this.store.getActiveAlert(ruleId);
+      const rule = this.store.deleteAlertRule(ruleId);
+      if (!rule) {
+        return Response.json({ error: "Alert rule not found" }, { status: 404 });
+      }
+      if (active) this.resolveAlert(active.id, Date.now());
+      return Response.json(rule);
+    }
+
+    // Erase everything stored about a device, and the log of erasures
+    const eraseMatch = url.pathname.match(/^\/devices\/([^/]+)\/erase$/);
+    if (eraseMatch && request.method === "POST") {
+      const serialNumber = decodeURIComponent(eraseMatch[1]);
+      // The import would bring the device's events back from KV
+      if (await this.needsLegacyImport()) {
+        return Response.json(
+          { error: "Devices can be erased once the legacy KV import has finished" },
+          { status: 409 }
+        );
+      }
+      // Rollups only count enrichment for rewritten events, so older ones can't be taken out yet
+      if (!(await this.isEventRewriteDone())) {
+        return Response.json(
+          { error: "Devices can be erased once stored events have been rewritten" },
+          { status: 409 }
+        );
+      }
+      const { requestedBy } = (await request.json()) as { requestedBy: string | null };
+
+      const sessions = await this.state.storage.list<TrackedSession>({
+        prefix: `${SESSION_KEY_PREFIX}${serialNumber}:`,
+      });
+      await this.state.storage.delete(Array.from(sessions.keys()));
+      for (const session of sessions.values()) {
+        if (session.stalledAt !== undefined) {
+          this.broadcast(
+            JSON.stringify({ type: "session-resolved", data: { sessionId: session.sessionId } })
+          );
+        }
+      }
+
+      const erasure = this.store.eraseDevice(serialNumber, requestedBy);
+      this.broadcast(JSON.stringify({ type: "device-erased", data: { serialNumber } }));
+      this.broadcast(JSON.stringify({ type: "stats", data: this.store.getStats() }));
+      return Response.json(erasure);
+    }
+
+    if (url.pathname === "/erasures" && request.method === "GET") {
+      const limit = parseInt(url.searchParams.get("limit") || "100", 10);
+      return Response.json(this.store.listDeviceErasures(limit));
+    }
+
+    // Append-only audit log; the Worker records who did what
+    if (url.pathname === "/audit" && request.method === "POST") {
+      const entry = (await request.json()) as Parameters<EventStore["appendAuditEntry"]>[0];
+      return Response.json(this.store.appendAuditEntry(entry), { status: 201 });
+    }
+
+    if (url.pathname === "/audit" && request.method === "GET") {
+      const before = url.searchParams.get("before");
+      return Response.json(
+        this.store.listAuditEntries({
+          limit: parseInt(url.searchParams.get("limit") || "100", 10),
+          action: (url.searchParams.get("action") as AuditAction | null) ?? undefined,
+          actor: url.searchParams.get("actor") ?? undefined,
+          before: before ? parseInt(before, 10) : undefined,
+        }),
+      );
+    }
+
+    // Quarantine of payloads that failed validation
+    if (url.pathname === "/rejected" && request.method === "POST") {
+      const rejected = (await request.json()) as Parameters<EventStore["insertRejected"]>[0];
+      return Response.json(this.store.insertRejected(rejected), { status: 201 });
+    }
+
+    if (url.pathname === "/rejected" && request.method === "GET") {
+      const limit = parseInt(url.searchParams.get("limit") || "100", 10);
+      const reason = url.searchParams.get("reason") || undefined;
+      const page = this.store.listRejected(limit, reason);
+      if (this.isRedactedRequest(request)) {
+        page.rejected = await Promise.all(
+          page.rejected.map((rejected) => redactRejected(rejected, this.piiPolicy))
+        );
+      }
+      return Response.json(page);
+    }
+
+    const rejectedMatch = url.pathname.match(/^\/rejected\/([^/]+)(\/reingested)?$/);
+    if (rejectedMatch && request.method === "GET" && !rejectedMatch[2]) {
+      const rejected = this.store.getRejected(rejectedMatch[1]);
+      if (!rejected) {
+        return Response.json({ error: "Rejected payload not found" }, { status: 404 });
+      }
+      return Response.json(rejected);
+    }
+
+    if (rejectedMatch && request.method === "POST" && rejectedMatch[2]) {
+      const { eventId } = (await request.json()) as { eventId: string };
+      const rejected = this.store.markRejectedReingested(rejectedMatch[1], eventId);
+      if (!rejected) {
+        return Response.json({ error: "Rejected payload not found" }, { status: 404 });
+      }
+      return Response.json(rejected);
+    }
+
+    // Read routes backing the Worker's /api/* endpoints
+    if (url.pathname === "/events" && request.method === "GET") {
+      const query = parseEventQuery(url.searchParams);
+      if ("error" in query) {
+        return Response.json(query, { status: 400 });
+      }
+      const page = this.store.queryEvents(query);
+      if (this.isRedactedRequest(request)) {
+        page.events = await Promise.all(
+          page.events.map((event) => redactEvent(event, this.piiPolicy))
+        );
+      }
+      return Response.json(page);
+    }
+
+    if (url.pathname === "/sessions" && request.method === "GET") {
+      const limit = parseInt(url.searchParams.get("limit") || "100", 10);
+      const state = url.searchParams.get("state");
+      const stalled = await this.getStalledSessions();
+      const stalledIds = new Set(stalled.map((s) => s.sessionId));
+
+      // Sessions only get their state once correlated, so with a state filter
+      // keep widening the window until enough of them match or none are left
+      let sessions: EnrollmentSession[];
+      for (let window = limit; ; window *= 2) {
+        const correlated = correlateSessions(this.store.listSessionEvents(window), stalledIds);
+        sessions = correlated.filter((s) => !state || s.state === state);
+        if (sessions.length >= limit || correlated.length < window) break;
+      }
+      sessions = sessions.slice(0, limit);
+      if (this.isRedactedRequest(request)) {
+        for (const session of sessions) {
+          if (session.startedEvent) {
+            session.startedEvent = await redactEvent(session.startedEvent, this.piiPolicy);
+          }
+          if (session.finishedEvent) {
+            session.finishedEvent = await redactEvent(session.finishedEvent, this.piiPolicy);
+          }
+        }
+      }
+      return Response.json(sessions);
+    }
+
+    if (url.pathname === "/stats" && request.method === "GET") {
+      const query = parseStatsQuery(url.searchParams);
+      if ("error" in query) {
+        return Response.json(query, { status: 400 });
+      }
+      return Response.json(this.store.getStats(query));
+    }
+
+    // List sessions currently flagged as stalled
+    if (url.pathname === "/stalled" && request.method === "GET") {
+      return Response.json(await this.getStalledSessions());
+    }
+
+    // Handle health request: connection count and storage status
+    if (url.pathname === "/health" && request.method === "GET") {
       const webSockets = this.state.getWebSockets();
-      return Response.json({ connections: webSockets.length });
+      return Response.json({
+        connections: webSockets.length,
+        events: this.store.count(),
+        duplicatesSuppressed: this.store.getCounter(DUPLICATES_COUNTER),
+      });
     }
 
     // WebSocket upgrade
@@ -52,7 +525,8 @@ export class DashboardRoom implements DurableObject {
       const pair = new WebSocketPair();
       const [client, server] = Object.values(pair);
 
-      this.state.acceptWebSocket(server);
+      // The tag survives hibernation, so broadcasts know what each dashboard may see
+      this.state.acceptWebSocket(server, this.isRedactedRequest(request) ? [] : [PII_CLEAR_TAG]);
 
       server.send(
         JSON.stringify({
@@ -66,6 +540,18 @@ export class DashboardRoom implements DurableObject {
         console.error("Error sending history:", error);
       });
 
+      server.send(JSON.stringify({ type: "stats", data: this.store.getStats() }));
+
+      this.getStalledSessions()
+        .then((sessions) => {
+          server.send(JSON.stringify({ type: "stalled-sessions", data: sessions }));
+        })
+        .catch((error) => {
+          console.error("Error sending stalled sessions:", error);
+        });
+
+      server.send(JSON.stringify({ type: "alerts", data: this.store.listAlerts(100, "active") }));
+
       return new Response(null, { status: 101, webSocket: client });
     }
 
@@ -114,25 +600,367 @@ export class DashboardRoom implements DurableObject {
     console.error("WebSocket error:", error);
   }
 
-  private async sendHistory(ws: WebSocket, limit = 200): Promise<void> {
-    const list = await this.env.WEBHOOKS.list({ limit });
+  /**
+   * Alarm handler: flags open sessions whose deadline has passed as stalled,
+   * forgets stalled sessions past their maximum age, purges expired events
+   * and rollups,
+   * imports a batch of legacy KV events if any remain, rewrites a batch of
+   * events stored in an older format, evaluates alert rules, sends pending
+   * stats, delivers due notifications, then reschedules.
+   */
+  async alarm(): Promise<void> {
+    const now = Date.now();
+
+    const nextPurge = await this.state.storage.get<number>(NEXT_PURGE_KEY);
+    if (nextPurge === undefined || nextPurge <= now) {
+      const retention = getRetention(this.env);
+      this.store.purgeBefore(now - retention.events);
+      if (retention.rollups !== null) {
+        this.store.purgeRollupsBefore(now - retention.rollups);
+      }
+      await this.state.storage.put(NEXT_PURGE_KEY, now + PURGE_INTERVAL);
+    }
+
+    if (this.env.WEBHOOKS && (await this.needsLegacyImport())) {
+      await this.importLegacyEvents(this.env.WEBHOOKS);
+    }
+
+    if (!(await this.isEventRewriteDone())) {
+      const rewritten = this.store.rewriteOutdatedEvents(EVENT_REWRITE_BATCH_SIZE);
+      if (rewritten < EVENT_REWRITE_BATCH_SIZE) {
+        await this.state.storage.put(EVENT_REWRITE_VERSION_KEY, CURRENT_EVENT_SCHEMA_VERSION);
+      }
+    }
+    const sessions = await this.state.storage.list<TrackedSession>({
+      prefix: SESSION_KEY_PREFIX,
+    });
+
+    for (const [key, session] of sessions) {
+      if (session.stalledAt === undefined) {
+        if (session.deadline <= now) {
+          session.stalledAt = now;
+          await this.state.storage.put(key, session);
+          this.broadcast(JSON.stringify({ type: "session-stalled", data: session }));
+          this.queueNotifications((channel) =>
+            channel.triggers.includes("stalled") ? { trigger: "stalled", session } : null
+          );
+        }
+      } else if (session.deadline + STALLED_SESSION_MAX_AGE <= now) {
+        await this.state.storage.delete(key);
+        this.broadcast(
+          JSON.stringify({ type: "session-resolved", data: { sessionId: session.sessionId } })
+        );
+      }
+    }
+
+    const nextAlertEvaluation = await this.state.storage.get<number>(NEXT_ALERT_EVALUATION_KEY);
+    if (nextAlertEvaluation === undefined || nextAlertEvaluation <= now) {
+      this.evaluateAlerts(now);
+      await this.state.storage.put(NEXT_ALERT_EVALUATION_KEY, now + ALERT_EVALUATION_INTERVAL);
+    }
+
+    if (await this.state.storage.get<boolean>(STATS_PENDING_KEY)) {
+      await this.broadcastStats(now);
+    }
+
+    await this.deliverNotifications();
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Send fresh stats to connected dashboards, or mark them pending for the
+   * alarm if the last broadcast was less than STATS_BROADCAST_INTERVAL ago
+   */
+  private async broadcastStats(now = Date.now()): Promise<void> {
+    // Dashboards that connect later get current stats on connect
+    if (this.state.getWebSockets().length === 0) {
+      await this.state.storage.delete(STATS_PENDING_KEY);
+      return;
+    }
+
+    const nextBroadcast = (await this.state.storage.get<number>(NEXT_STATS_BROADCAST_KEY)) ?? 0;
+    if (nextBroadcast > now) {
+      await this.state.storage.put(STATS_PENDING_KEY, true);
+      await this.scheduleAlarm();
+      return;
+    }
+
+    this.broadcast(JSON.stringify({ type: "stats", data: this.store.getStats() }));
+    await this.state.storage.put(NEXT_STATS_BROADCAST_KEY, now + STATS_BROADCAST_INTERVAL);
+    await this.state.storage.delete(STATS_PENDING_KEY);
+  }
+
+  /**
+   * Raise an alert for every rule whose threshold is crossed and resolve
+   * active alerts whose rule is back within bounds or outside its
+   * business hours
+   */
+  private evaluateAlerts(now: number): void {
+    for (const rule of this.store.listAlertRules()) {
+      const since = getEvaluationWindowStart(rule, now);
+      const value = since === null ? null : this.store.getAlertMetric(rule, since);
+      const active = this.store.getActiveAlert(rule.id);
+
+      // No data (e.g. a failure rate without any actions) never crosses a threshold
+      if (value !== null && isThresholdCrossed(rule, value)) {
+        if (!active) {
+          const alert = this.store.raiseAlert(rule, value, formatAlertMessage(rule, value), now);
+          this.broadcast(JSON.stringify({ type: "alert-raised", data: alert }));
+        }
+      } else if (active) {
+        this.resolveAlert(active.id, now);
+      }
+    }
+  }
+
+  private resolveAlert(id: string, now: number): void {
+    const alert = this.store.resolveAlert(id, now);
+    if (alert) {
+      this.broadcast(JSON.stringify({ type: "alert-resolved", data: alert }));
+    }
+  }
+
+  /**
+   * Send a message to every connected dashboard. Dashboards that may not see
+   * personal data in clear get `redactedMessage` instead, if given.
+   */
+  private broadcast(message: string, redactedMessage = message): void {
+    for (const ws of this.state.getWebSockets()) {
+      try {
+        ws.send(this.seesClearValues(ws) ? message : redactedMessage);
+      } catch (error) {
+        console.error("Error sending to WebSocket:", error);
+      }
+    }
+  }
+
+  /**
+   * Update open-session tracking for an incoming event.
+   * A Started event opens a session and closes any earlier open session of
+   * the same device (it was abandoned); a Finished event closes its session.
+   * Other event types do not affect sessions.
+   */
+  private async trackSession(event: StoredEvent): Promise<void> {
+    if (!isKnownEvent(event)) return;
+    const payload = event.payload;
+    const sessionId = getSessionId(payload.serialNumber, payload.started);
+    const resolved: TrackedSession[] = [];
+
+    if (payload.event === "com.jamf.setupmanager.started") {
+      const previous = await this.state.storage.list<TrackedSession>({
+        prefix: `${SESSION_KEY_PREFIX}${payload.serialNumber}:`,
+      });
+      for (const [key, session] of previous) {
+        if (session.sessionId === sessionId) continue;
+        await this.state.storage.delete(key);
+        resolved.push(session);
+      }
+
+      const startedTime = new Date(payload.started).getTime();
+      const session: TrackedSession = {
+        sessionId,
+        serialNumber: payload.serialNumber,
+        modelName: payload.modelName,
+        modelIdentifier: payload.modelIdentifier,
+        macOSVersion: payload.macOSVersion,
+        started: payload.started,
+        deadline:
+          (isNaN(startedTime) ? event.timestamp : startedTime) +
+          getStallTimeout(this.env, payload.modelIdentifier, payload.modelName),
+      };
+      await this.state.storage.put(`${SESSION_KEY_PREFIX}${sessionId}`, session);
+    } else {
+      const key = `${SESSION_KEY_PREFIX}${sessionId}`;
+      const session = await this.state.storage.get<TrackedSession>(key);
+      if (session) {
+        await this.state.storage.delete(key);
+        resolved.push(session);
+      }
+    }
+
+    for (const session of resolved) {
+      if (session.stalledAt !== undefined) {
+        this.broadcast(
+          JSON.stringify({ type: "session-resolved", data: { sessionId: session.sessionId } })
+        );
+      }
+    }
+
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Queue a notification on every channel `notificationFor` returns one for.
+   * Delivery happens in the alarm, so ingestion never waits for a channel.
+   * Returns true if anything was queued.
+   */
+  private queueNotifications(
+    notificationFor: (channel: NotificationChannel) => Notification | null
+  ): boolean {
+    let queued = false;
+    for (const channel of this.store.listNotificationChannels()) {
+      const notification = notificationFor(channel);
+      if (!notification) continue;
+      this.store.queueNotification(
+        channel.id,
+        notification.trigger,
+        notification.trigger === "stalled"
+          ? notification.session.sessionId
+          : notification.event.eventId,
+        buildNotificationBody(channel, notification)
+      );
+      queued = true;
+    }
+    return queued;
+  }
+
+  /**
+   * Send one batch of due notifications. Failed attempts are retried with
+   * exponential backoff unless the channel rejected the request outright.
+   */
+  private async deliverNotifications(): Promise<void> {
+    const due = this.store.listDueNotifications(Date.now(), NOTIFICATION_BATCH_SIZE);
+    for (const delivery of due) {
+      const result = await sendNotification(delivery.url, delivery.body);
+      const attempts = delivery.attempts + 1;
+
+      if (result.delivered) {
+        this.store.updateNotificationDelivery(delivery.id, {
+          status: "delivered",
+          nextAttemptAt: null,
+          lastError: null,
+          deliveredAt: Date.now(),
+        });
+      } else {
+        const retry = result.retryable && attempts < MAX_DELIVERY_ATTEMPTS;
+        this.store.updateNotificationDelivery(delivery.id, {
+          status: retry ? "pending" : "failed",
+          nextAttemptAt: retry ? Date.now() + getRetryDelay(attempts) : null,
+          lastError: result.error,
+          deliveredAt: null,
+        });
+      }
+    }
+  }
+
+  /**
+   * Import one batch of events stored in KV by versions before SQLite storage.
+   * The KV entries are left in place and expire on their own.
+   */
+  private async importLegacyEvents(kv: KVNamespace): Promise<void> {
+    const cursor = await this.state.storage.get<string>(LEGACY_CURSOR_KEY);
+    const list = await kv.list({ limit: LEGACY_IMPORT_BATCH_SIZE, cursor });
 
     const events = await Promise.all(
       list.keys.map(async (key) => {
-        const data = await this.env.WEBHOOKS.get(key.name);
+        const data = await kv.get(key.name);
         if (!data) return null;
         try {
-          return JSON.parse(data) as StoredEvent;
+          return migrateStoredEvent(JSON.parse(data) as StoredEventRecord);
         } catch {
           return null;
         }
       })
     );
 
-    const validEvents = events
-      .filter((e): e is StoredEvent => e !== null)
-      .sort((a, b) => b.timestamp - a.timestamp);
+    for (const event of events) {
+      if (event) this.store.insert(event);
+    }
 
-    ws.send(JSON.stringify({ type: "history", data: validEvents }));
+    if (list.list_complete) {
+      await this.state.storage.put(LEGACY_DONE_KEY, true);
+      await this.state.storage.delete(LEGACY_CURSOR_KEY);
+    } else {
+      await this.state.storage.put(LEGACY_CURSOR_KEY, list.cursor);
+    }
+  }
+
+  /**
+   * Set the alarm to the earliest pending job: a stall deadline,
+   * a stalled-session expiry, the next retention purge, a legacy import batch,
+   * an event rewrite batch, the next alert evaluation, a pending stats
+   * broadcast or a notification delivery attempt
+   */
+  private async scheduleAlarm(): Promise<void> {
+    const sessions = await this.state.storage.list<TrackedSession>({
+      prefix: SESSION_KEY_PREFIX,
+    });
+
+    let next = (await this.state.storage.get<number>(NEXT_PURGE_KEY)) ?? Date.now();
+    if (await this.needsLegacyImport()) {
+      next = Date.now();
+    }
+    if (!(await this.isEventRewriteDone())) {
+      next = Date.now();
+    }
+    if (this.store.listAlertRules().length > 0) {
+      const nextAlertEvaluation = await this.state.storage.get<number>(NEXT_ALERT_EVALUATION_KEY);
+      next = Math.min(next, nextAlertEvaluation ?? Date.now());
+    }
+    if (await this.state.storage.get<boolean>(STATS_PENDING_KEY)) {
+      const nextStatsBroadcast = await this.state.storage.get<number>(NEXT_STATS_BROADCAST_KEY);
+      next = Math.min(next, nextStatsBroadcast ?? Date.now());
+    }
+    const nextDelivery = this.store.nextNotificationAttempt();
+    if (nextDelivery !== null) {
+      next = Math.min(next, nextDelivery);
+    }
+
+    for (const session of sessions.values()) {
+      const due =
+        session.stalledAt === undefined
+          ? session.deadline
+          : session.deadline + STALLED_SESSION_MAX_AGE;
+      next = Math.min(next, due);
+    }
+
+    await this.state.storage.setAlarm(next);
+  }
+
+  /**
+   * Whether legacy KV events remain to be imported. Older versions only had
+   * the default tenant, so no other room imports them; a room that has not
+   * learned its tenant yet waits.
+   */
+  private async needsLegacyImport(): Promise<boolean> {
+    if (!this.env.WEBHOOKS) return false;
+    if ((await this.state.storage.get<string>(TENANT_KEY)) !== DEFAULT_TENANT) return false;
+    return !(await this.state.storage.get<boolean>(LEGACY_DONE_KEY));
+  }
+
+  /** Whether every stored event has been rewritten in the current format */
+  private async isEventRewriteDone(): Promise<boolean> {
+    const version = await this.state.storage.get<number>(EVENT_REWRITE_VERSION_KEY);
+    return version === CURRENT_EVENT_SCHEMA_VERSION;
+  }
+
+  private async getStalledSessions(): Promise<TrackedSession[]> {
+    const sessions = await this.state.storage.list<TrackedSession>({
+      prefix: SESSION_KEY_PREFIX,
+    });
+    return Array.from(sessions.values())
+      .filter((s) => s.stalledAt !== undefined)
+      .sort((a, b) => a.deadline - b.deadline);
+  }
+
+  private async sendHistory(ws: WebSocket, limit = 200): Promise<void> {
+    let events = this.store.listRecent(limit);
+    if (!this.seesClearValues(ws)) {
+      events = await Promise.all(events.map((event) => redactEvent(event, this.piiPolicy)));
+    }
+    ws.send(JSON.stringify({ type: "history", data: events }));
+  }
+
+  /** Whether the Worker made this request for a user who may not see personal data in clear */
+  private isRedactedRequest(request: Request): boolean {
+    return (
+      needsServeRedaction(this.piiPolicy) && request.headers.get(PII_ACCESS_HEADER) === "redacted"
+    );
+  }
+
+  private seesClearValues(ws: WebSocket): boolean {
+    return (
+      !needsServeRedaction(this.piiPolicy) || this.state.getTags(ws).includes(PII_CLEAR_TAG)
+    );
   }
 }
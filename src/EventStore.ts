@@ -0,0 +1,2002 @@
+import type { AlertRuleInput } from "./alerts";
+import { buildDurationHistogram, percentile } from "./durations";
+import {
+  CURRENT_EVENT_SCHEMA_VERSION,
+  migrateStoredEvent,
+  type StoredEventRecord,
+} from "./eventVersions";
+import type { NotificationChannelInput } from "./notifications";
+import { getSessionId } from "./sessions";
+import {
+  isKnownEvent,
+  isKnownPayload,
+  type Alert,
+  type AlertMetric,
+  type AlertOperator,
+  type AlertRule,
+  type AuditAction,
+  type AuditEntry,
+  type BuildType,
+  type BusinessHours,
+  type DeviceErasure,
+  type DeviceEnrichment,
+  type NotificationChannel,
+  type NotificationChannelType,
+  type NotificationDelivery,
+  type NotificationDeliveryStatus,
+  type NotificationTrigger,
+  type SetupManagerFinishedWebhook,
+  type SetupManagerWebhook,
+  type Stats,
+  type StatsGroup,
+  type StatsGroupBy,
+  type StatsResponse,
+  type RejectedPayload,
+  type Role,
+  type ServiceToken,
+  type ServiceTokenScope,
+  type StoredEvent,
+  type WebhookToken,
+} from "./types";
+
+/** Rollup bucket sizes (ms); buckets are aligned to UTC hours and days */
+const ROLLUP_GRANULARITIES = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+} as const;
+
+type RollupGranularity = keyof typeof ROLLUP_GRANULARITIES;
+
+/**
+ * Build statements that backfill one rollup dimension from existing events.
+ * `expression` is the SQL expression over the events table that yields the
+ * dimension value.
+ */
+function backfillRollups(dimension: string, expression: string): string[] {
+  return Object.entries(ROLLUP_GRANULARITIES).map(
+    ([granularity, size]) => `INSERT INTO rollups (
+      granularity, bucket, dimension, dimension_value, started, finished,
+      finished_with_failures, failed_actions, total_actions, duration_sum, duration_count
+    )
+    SELECT '${granularity}', (timestamp / ${size}) * ${size}, '${dimension}', ${expression},
+      SUM(event = 'com.jamf.setupmanager.started'),
+      SUM(event = 'com.jamf.setupmanager.finished'),
+      SUM(event = 'com.jamf.setupmanager.finished' AND failed_actions > 0),
+      SUM(failed_actions),
+      SUM(total_actions),
+      COALESCE(SUM(duration), 0),
+      COUNT(duration)
+    FROM events
+    GROUP BY 2, 4`
+  );
+}
+
+/**
+ * Schema migrations for the DashboardRoom SQLite database.
+ * Each entry is applied exactly once, in order; never edit an entry that
+ * has shipped — append a new one instead.
+ */
+const MIGRATIONS: string[][] = [
+  [
+    `CREATE TABLE events (
+      event_id TEXT PRIMARY KEY,
+      event TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      session_id TEXT NOT NULL,
+      serial_number TEXT NOT NULL,
+      model_name TEXT NOT NULL,
+      model_identifier TEXT NOT NULL,
+      macos_version TEXT NOT NULL,
+      duration INTEGER,
+      total_actions INTEGER NOT NULL DEFAULT 0,
+      failed_actions INTEGER NOT NULL DEFAULT 0,
+      payload TEXT NOT NULL
+    )`,
+    "CREATE INDEX idx_events_timestamp ON events (timestamp)",
+    "CREATE INDEX idx_events_serial ON events (serial_number, timestamp)",
+    "CREATE INDEX idx_events_model ON events (model_name, timestamp)",
+    "CREATE INDEX idx_events_macos ON events (macos_version, timestamp)",
+    "CREATE INDEX idx_events_event ON events (event, timestamp)",
+    "CREATE INDEX idx_events_session ON events (session_id)",
+  ],
+  [
+    "ALTER TABLE events ADD COLUMN computer_name TEXT",
+    "ALTER TABLE events ADD COLUMN user_id TEXT",
+    "ALTER TABLE events ADD COLUMN department TEXT",
+    `UPDATE events SET
+      computer_name = COALESCE(json_extract(payload, '$.computerName'), json_extract(payload, '$.userEntry.computerName')),
+      user_id = json_extract(payload, '$.userEntry.userID'),
+      department = json_extract(payload, '$.userEntry.department')`,
+    "CREATE INDEX idx_events_computer_name ON events (computer_name COLLATE NOCASE)",
+    "CREATE INDEX idx_events_user_id ON events (user_id COLLATE NOCASE)",
+  ],
+  [
+    `CREATE TABLE rollups (
+      granularity TEXT NOT NULL,
+      bucket INTEGER NOT NULL,
+      dimension TEXT NOT NULL,
+      dimension_value TEXT NOT NULL,
+      started INTEGER NOT NULL DEFAULT 0,
+      finished INTEGER NOT NULL DEFAULT 0,
+      finished_with_failures INTEGER NOT NULL DEFAULT 0,
+      failed_actions INTEGER NOT NULL DEFAULT 0,
+      total_actions INTEGER NOT NULL DEFAULT 0,
+      duration_sum INTEGER NOT NULL DEFAULT 0,
+      duration_count INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (granularity, dimension, bucket, dimension_value)
+    )`,
+    ...backfillRollups("all", "''"),
+    ...backfillRollups("model", "model_name"),
+    ...backfillRollups("macos", "macos_version"),
+  ],
+  [
+    `CREATE TABLE counters (
+      name TEXT PRIMARY KEY,
+      value INTEGER NOT NULL DEFAULT 0
+    )`,
+  ],
+  [
+    `CREATE TABLE webhook_nonces (
+      nonce TEXT PRIMARY KEY,
+      expires_at INTEGER NOT NULL
+    )`,
+    "CREATE INDEX idx_webhook_nonces_expires_at ON webhook_nonces (expires_at)",
+  ],
+  [
+    `CREATE TABLE webhook_tokens (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      site TEXT,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER,
+      revoked_at INTEGER
+    )`,
+    "ALTER TABLE events ADD COLUMN site TEXT",
+    "CREATE INDEX idx_events_site_timestamp ON events (site, timestamp)",
+  ],
+  [
+    `CREATE TABLE rejected_payloads (
+      id TEXT PRIMARY KEY,
+      received_at INTEGER NOT NULL,
+      error TEXT NOT NULL,
+      body TEXT NOT NULL,
+      headers TEXT NOT NULL,
+      site TEXT,
+      reingested_at INTEGER,
+      event_id TEXT
+    )`,
+    "CREATE INDEX idx_rejected_payloads_received_at ON rejected_payloads (received_at)",
+    "CREATE INDEX idx_rejected_payloads_error ON rejected_payloads (error, received_at)",
+  ],
+  [
+    // Events stored before versioning are in the version 1 format
+    "ALTER TABLE events ADD COLUMN schema_version INTEGER NOT NULL DEFAULT 1",
+    "CREATE INDEX idx_events_schema_version ON events (schema_version)",
+  ],
+  [
+    // Filled in when the background rewrite upgrades events to format version 2
+    "ALTER TABLE events ADD COLUMN chip_family TEXT",
+    "ALTER TABLE events ADD COLUMN model_year INTEGER",
+    "ALTER TABLE events ADD COLUMN macos_name TEXT",
+    "ALTER TABLE events ADD COLUMN build_type TEXT",
+  ],
+  [
+    `CREATE TABLE notification_channels (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL,
+      url TEXT NOT NULL,
+      triggers TEXT NOT NULL,
+      template TEXT,
+      created_at INTEGER NOT NULL
+    )`,
+    `CREATE TABLE notification_deliveries (
+      id TEXT PRIMARY KEY,
+      channel_id TEXT NOT NULL,
+      trigger_name TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      body TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at INTEGER,
+      last_error TEXT,
+      created_at INTEGER NOT NULL,
+      delivered_at INTEGER
+    )`,
+    "CREATE INDEX idx_notification_deliveries_due ON notification_deliveries (status, next_attempt_at)",
+    "CREATE INDEX idx_notification_deliveries_created_at ON notification_deliveries (created_at)",
+  ],
+  [
+    `CREATE TABLE alert_rules (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      operator TEXT NOT NULL,
+      threshold REAL NOT NULL,
+      window_minutes INTEGER,
+      action TEXT,
+      business_hours TEXT,
+      time_zone TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )`,
+    `CREATE TABLE alerts (
+      id TEXT PRIMARY KEY,
+      rule_id TEXT NOT NULL,
+      rule_name TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      message TEXT NOT NULL,
+      value REAL NOT NULL,
+      threshold REAL NOT NULL,
+      raised_at INTEGER NOT NULL,
+      resolved_at INTEGER
+    )`,
+    // A rule has at most one active alert
+    "CREATE UNIQUE INDEX idx_alerts_active ON alerts (rule_id) WHERE resolved_at IS NULL",
+    "CREATE INDEX idx_alerts_raised_at ON alerts (raised_at)",
+  ],
+  [
+    `CREATE TABLE device_erasures (
+      id TEXT PRIMARY KEY,
+      serial_number TEXT NOT NULL,
+      requested_by TEXT,
+      erased_at INTEGER NOT NULL,
+      events INTEGER NOT NULL,
+      rejected_payloads INTEGER NOT NULL,
+      notifications INTEGER NOT NULL
+    )`,
+    "CREATE INDEX idx_device_erasures_erased_at ON device_erasures (erased_at)",
+  ],
+  [
+    // scopes is a JSON array of ServiceTokenScope
+    `CREATE TABLE service_tokens (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      scopes TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER,
+      last_used_at INTEGER,
+      revoked_at INTEGER
+    )`,
+  ],
+  [
+    // details is a JSON object or NULL
+    `CREATE TABLE audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      time INTEGER NOT NULL,
+      actor TEXT,
+      role TEXT NOT NULL,
+      action TEXT NOT NULL,
+      target TEXT,
+      details TEXT
+    )`,
+    "CREATE INDEX idx_audit_log_action ON audit_log (action, id)",
+    "CREATE INDEX idx_audit_log_actor ON audit_log (actor, id)",
+    // The log is append-only, whatever code runs against the database
+    `CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+     BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END`,
+    `CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+     BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END`,
+  ],
+];
+
+/** Dimension value of events whose enrichment field could not be derived */
+const UNKNOWN_DIMENSION_VALUE = "Unknown";
+
+/**
+ * A Started or Finished event as counted in the rollups: a stored event, or
+ * a record in an older format, which may have no enrichment
+ */
+interface CountedEvent {
+  payload: SetupManagerWebhook;
+  timestamp: number;
+  enrichment?: DeviceEnrichment;
+}
+
+/**
+ * Enrichment field as a rollup dimension value. Events stored before
+ * enrichment existed have none and are not counted until they are rewritten.
+ */
+function enrichmentValue(event: CountedEvent, field: keyof DeviceEnrichment): string | undefined {
+  if (!event.enrichment) return undefined;
+  return event.enrichment[field]?.toString() ?? UNKNOWN_DIMENSION_VALUE;
+}
+
+/**
+ * Rollup dimensions maintained at ingest, keyed by dimension name.
+ * Each maps an event to the value it is counted under, or undefined if the
+ * event is not counted in that dimension.
+ */
+const ROLLUP_DIMENSIONS: Record<string, (event: CountedEvent) => string | undefined> = {
+  all: () => "",
+  model: (event) => event.payload.modelName,
+  macos: (event) => event.payload.macOSVersion,
+  chip: (event) => enrichmentValue(event, "chipFamily"),
+  modelYear: (event) => enrichmentValue(event, "modelYear"),
+  macosName: (event) => enrichmentValue(event, "macOSName"),
+  buildType: (event) => enrichmentValue(event, "buildType"),
+};
+
+/**
+ * /api/stats groupBy values backed by a rollup dimension, with the SQL
+ * expression over the events table that yields the same dimension value
+ */
+const GROUP_BY_DIMENSIONS: Partial<Record<StatsGroupBy, { dimension: string; expression: string }>> = {
+  model: { dimension: "model", expression: "model_name" },
+  macOSVersion: { dimension: "macos", expression: "macos_version" },
+  chipFamily: {
+    dimension: "chip",
+    expression: `COALESCE(chip_family, '${UNKNOWN_DIMENSION_VALUE}')`,
+  },
+  modelYear: {
+    dimension: "modelYear",
+    expression: `COALESCE(CAST(model_year AS TEXT), '${UNKNOWN_DIMENSION_VALUE}')`,
+  },
+  macOSName: {
+    dimension: "macosName",
+    expression: `COALESCE(macos_name, '${UNKNOWN_DIMENSION_VALUE}')`,
+  },
+  buildType: {
+    dimension: "buildType",
+    expression: `COALESCE(build_type, '${UNKNOWN_DIMENSION_VALUE}')`,
+  },
+};
+
+const STATS_GROUP_BY: readonly StatsGroupBy[] = [
+  "hour",
+  "day",
+  "model",
+  "macOSVersion",
+  "chipFamily",
+  "modelYear",
+  "macOSName",
+  "buildType",
+];
+
+/** Filters and pagination accepted by EventStore.queryEvents */
+export interface EventQuery {
+  limit: number;
+  event?: "started" | "finished";
+  failedOnly?: boolean;
+  macOSVersion?: string;
+  model?: string;
+  serialNumber?: string;
+  computerName?: string;
+  userID?: string;
+  department?: string;
+  site?: string;
+  /** Inclusive lower bound of the receive time (ms) */
+  from?: number;
+  /** Inclusive upper bound of the receive time (ms) */
+  to?: number;
+  cursor?: string;
+}
+
+export interface EventPage {
+  events: StoredEvent[];
+  /** Pass as `cursor` to fetch the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+const MAX_QUERY_LIMIT = 1000;
+
+/** Accepts epoch milliseconds or an ISO 8601 timestamp */
+function parseTime(value: string): number | null {
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Parse /api/events query parameters.
+ * Returns an error message for invalid values instead of silently ignoring them.
+ */
+export function parseEventQuery(params: URLSearchParams): EventQuery | { error: string } {
+  const limitParam = params.get("limit");
+  const query: EventQuery = {
+    limit: Math.min(Math.max(parseInt(limitParam || "100", 10) || 100, 1), MAX_QUERY_LIMIT),
+  };
+
+  const event = params.get("event");
+  if (event) {
+    if (event !== "started" && event !== "finished") {
+      return { error: "event must be \"started\" or \"finished\"" };
+    }
+    query.event = event;
+  }
+
+  const failed = params.get("failed");
+  if (failed) {
+    if (failed !== "true" && failed !== "false") {
+      return { error: "failed must be \"true\" or \"false\"" };
+    }
+    query.failedOnly = failed === "true";
+  }
+
+  for (const bound of ["from", "to"] as const) {
+    const value = params.get(bound);
+    if (!value) continue;
+    const time = parseTime(value);
+    if (time === null) {
+      return { error: `${bound} must be epoch milliseconds or an ISO 8601 timestamp` };
+    }
+    query[bound] = time;
+  }
+
+  const textFilters = {
+    macOSVersion: "macOSVersion",
+    model: "model",
+    serialNumber: "serial",
+    computerName: "computerName",
+    userID: "userID",
+    department: "department",
+    site: "site",
+  } as const;
+  for (const [field, param] of Object.entries(textFilters) as [keyof typeof textFilters, string][]) {
+    const value = params.get(param)?.trim();
+    if (value) query[field] = value;
+  }
+
+  const cursor = params.get("cursor");
+  if (cursor) {
+    if (!decodeCursor(cursor)) return { error: "Invalid cursor" };
+    query.cursor = cursor;
+  }
+
+  return query;
+}
+
+/** Quarantined payloads, newest first, with counts per rejection reason */
+export interface RejectedPage {
+  rejected: RejectedPayload[];
+  /** Rejections per validation error across the whole quarantine */
+  reasons: { error: string; count: number }[];
+  total: number;
+}
+
+/** Oldest quarantined payloads are dropped beyond this many */
+const MAX_REJECTED_PAYLOADS = 1000;
+
+/** Oldest finished entries of the notification delivery log are dropped beyond this many */
+const MAX_NOTIFICATION_DELIVERIES = 1000;
+
+/** Oldest resolved alerts are dropped beyond this many */
+const MAX_RESOLVED_ALERTS = 1000;
+
+/** A queued notification whose next attempt is due */
+export type DueNotification = {
+  id: string;
+  url: string;
+  body: string;
+  attempts: number;
+};
+
+/** Time range and grouping accepted by EventStore.getStats */
+export interface StatsQuery {
+  from?: number;
+  to?: number;
+  groupBy?: StatsGroupBy;
+}
+
+/** Parse /api/stats query parameters */
+export function parseStatsQuery(params: URLSearchParams): StatsQuery | { error: string } {
+  const query: StatsQuery = {};
+
+  for (const bound of ["from", "to"] as const) {
+    const value = params.get(bound);
+    if (!value) continue;
+    const time = parseTime(value);
+    if (time === null) {
+      return { error: `${bound} must be epoch milliseconds or an ISO 8601 timestamp` };
+    }
+    query[bound] = time;
+  }
+
+  const groupBy = params.get("groupBy");
+  if (groupBy) {
+    if (!STATS_GROUP_BY.includes(groupBy as StatsGroupBy)) {
+      return { error: `groupBy must be one of: ${STATS_GROUP_BY.join(", ")}` };
+    }
+    query.groupBy = groupBy as StatsGroupBy;
+  }
+
+  return query;
+}
+
+/** Cursors encode the sort key of the last returned row: [timestamp, eventId] */
+function encodeCursor(timestamp: number, eventId: string): string {
+  return btoa(JSON.stringify([timestamp, eventId]))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeCursor(cursor: string): [number, string] | null {
+  try {
+    const decoded = JSON.parse(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === "number" &&
+      typeof decoded[1] === "string"
+    ) {
+      return [decoded[0], decoded[1]];
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+/** Columns read to rebuild a StoredEvent */
+const EVENT_COLUMNS = `event_id, timestamp, payload, site, schema_version,
+  chip_family, model_year, macos_name, build_type`;
+
+type EventRow = {
+  event_id: string;
+  timestamp: number;
+  payload: string;
+  site: string | null;
+  schema_version: number;
+  chip_family: string | null;
+  model_year: number | null;
+  macos_name: string | null;
+  build_type: BuildType | null;
+};
+
+type WebhookTokenRow = {
+  id: string;
+  name: string;
+  site: string | null;
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+};
+
+const WEBHOOK_TOKEN_COLUMNS = "id, name, site, created_at, last_used_at, revoked_at";
+
+type ServiceTokenRow = {
+  id: string;
+  name: string;
+  scopes: string;
+  created_at: number;
+  expires_at: number | null;
+  last_used_at: number | null;
+  revoked_at: number | null;
+};
+
+const SERVICE_TOKEN_COLUMNS =
+  "id, name, scopes, created_at, expires_at, last_used_at, revoked_at";
+
+type RejectedPayloadRow = {
+  id: string;
+  received_at: number;
+  error: string;
+  body: string;
+  headers: string;
+  site: string | null;
+  reingested_at: number | null;
+  event_id: string | null;
+};
+
+type NotificationChannelRow = {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+  url: string;
+  triggers: string;
+  template: string | null;
+  created_at: number;
+};
+
+type NotificationDeliveryRow = {
+  id: string;
+  channel_id: string;
+  channel_name: string | null;
+  trigger_name: NotificationTrigger;
+  subject: string;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  next_attempt_at: number | null;
+  last_error: string | null;
+  created_at: number;
+  delivered_at: number | null;
+};
+
+type AlertRuleRow = {
+  id: string;
+  name: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  /** Null for the "today" window */
+  window_minutes: number | null;
+  action: string | null;
+  business_hours: string | null;
+  time_zone: string;
+  created_at: number;
+};
+
+type AlertRow = {
+  id: string;
+  rule_id: string;
+  rule_name: string;
+  metric: AlertMetric;
+  message: string;
+  value: number;
+  threshold: number;
+  raised_at: number;
+  resolved_at: number | null;
+};
+
+type DeviceErasureRow = {
+  id: string;
+  serial_number: string;
+  requested_by: string | null;
+  erased_at: number;
+  events: number;
+  rejected_payloads: number;
+  notifications: number;
+};
+
+type AuditEntryRow = {
+  id: number;
+  time: number;
+  actor: string | null;
+  role: Role;
+  action: AuditAction;
+  target: string | null;
+  details: string | null;
+};
+
+type RollupTotals = {
+  started: number | null;
+  finished: number | null;
+  finished_with_failures: number | null;
+  failed_actions: number | null;
+  total_actions: number | null;
+  duration_sum: number | null;
+  duration_count: number | null;
+};
+
+/** Facts about a group of events that rollups cannot provide */
+type RawFacts = {
+  devices: number;
+  lastEventTime: number | null;
+  /** Finished enrollment durations in seconds, ascending */
+  durations: number[];
+};
+
+const EMPTY_RAW_FACTS: RawFacts = { devices: 0, lastEventTime: null, durations: [] };
+
+const ROLLUP_SUMS = `
+  SUM(started) AS started,
+  SUM(finished) AS finished,
+  SUM(finished_with_failures) AS finished_with_failures,
+  SUM(failed_actions) AS failed_actions,
+  SUM(total_actions) AS total_actions,
+  SUM(duration_sum) AS duration_sum,
+  SUM(duration_count) AS duration_count`;
+
+/**
+ * Event persistence on top of the Durable Object's SQLite storage.
+ * Every read is an indexed query, so results are ordered by receive time
+ * rather than by key, and no longer capped by a KV list page.
+ */
+export class EventStore {
+  private storage: DurableObjectStorage;
+
+  constructor(storage: DurableObjectStorage) {
+    this.storage = storage;
+    this.migrate();
+  }
+
+  private get sql(): SqlStorage {
+    return this.storage.sql;
+  }
+
+  private migrate(): void {
+    this.sql.exec(
+      "CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, applied_at INTEGER NOT NULL)"
+    );
+    const { version } = this.sql
+      .exec<{ version: number | null }>("SELECT MAX(version) AS version FROM schema_migrations")
+      .one();
+    const current = version ?? 0;
+
+    for (let i = current; i < MIGRATIONS.length; i++) {
+      this.storage.transactionSync(() => {
+        for (const statement of MIGRATIONS[i]) {
+          this.sql.exec(statement);
+        }
+        this.sql.exec(
+          "INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)",
+          i + 1,
+          Date.now(),
+        );
+      });
+    }
+  }
+
+  /**
+   * Store an event and add it to the rollups.
+   * Returns false if an event with the same ID already exists.
+   */
+  insert(event: StoredEvent): boolean {
+    return this.storage.transactionSync(() => {
+      const inserted = this.insertEvent(event);
+      // Only Started and Finished events count towards the statistics
+      if (inserted && isKnownEvent(event)) this.updateRollups(event, 1);
+      return inserted;
+    });
+  }
+
+  private insertEvent(event: StoredEvent): boolean {
+    const payload = event.payload;
+    const finished =
+      isKnownEvent(event) && event.payload.event === "com.jamf.setupmanager.finished"
+        ? event.payload
+        : null;
+    const actions = finished?.enrollmentActions ?? [];
+
+    const cursor = this.sql.exec(
+      `INSERT OR IGNORE INTO events (
+        event_id, event, timestamp, session_id, serial_number, model_name,
+        model_identifier, macos_version, duration, total_actions, failed_actions, payload,
+        computer_name, user_id, department, site, schema_version,
+        chip_family, model_year, macos_name, build_type
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      event.eventId,
+      payload.event,
+      event.timestamp,
+      // Generic events are only guaranteed to carry a serial number
+      getSessionId(payload.serialNumber, payload.started ?? ""),
+      payload.serialNumber,
+      payload.modelName ?? "",
+      payload.modelIdentifier ?? "",
+      payload.macOSVersion ?? "",
+      finished ? finished.duration : null,
+      actions.length,
+      actions.filter((a) => a.status === "failed").length,
+      JSON.stringify(payload),
+      (finished?.computerName ?? finished?.userEntry?.computerName) || null,
+      finished?.userEntry?.userID || null,
+      finished?.userEntry?.department || null,
+      event.site ?? null,
+      event.schemaVersion,
+      event.enrichment.chipFamily,
+      event.enrichment.modelYear,
+      event.enrichment.macOSName,
+      event.enrichment.buildType,
+    );
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * Add an event to the rollups (`sign` 1) or take it out again (`sign` -1),
+   * optionally only for some dimensions
+   */
+  private updateRollups(
+    event: CountedEvent,
+    sign: 1 | -1,
+    dimensions: string[] = Object.keys(ROLLUP_DIMENSIONS),
+  ): void {
+    const payload = event.payload;
+    const isStarted = payload.event === "com.jamf.setupmanager.started";
+    const finished = isStarted ? null : (payload as SetupManagerFinishedWebhook);
+    const actions = finished?.enrollmentActions ?? [];
+    const failedActions = actions.filter((a) => a.status === "failed").length;
+
+    for (const [granularity, size] of Object.entries(ROLLUP_GRANULARITIES)) {
+      const bucket = Math.floor(event.timestamp / size) * size;
+      for (const dimension of dimensions) {
+        const value = ROLLUP_DIMENSIONS[dimension](event);
+        if (value === undefined) continue;
+        this.sql.exec(
+          `INSERT INTO rollups (
+            granularity, bucket, dimension, dimension_value, started, finished,
+            finished_with_failures, failed_actions, total_actions, duration_sum, duration_count
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (granularity, dimension, bucket, dimension_value) DO UPDATE SET
+            started = started + excluded.started,
+            finished = finished + excluded.finished,
+            finished_with_failures = finished_with_failures + excluded.finished_with_failures,
+            failed_actions = failed_actions + excluded.failed_actions,
+            total_actions = total_actions + excluded.total_actions,
+            duration_sum = duration_sum + excluded.duration_sum,
+            duration_count = duration_count + excluded.duration_count`,
+          granularity,
+          bucket,
+          dimension,
+          value,
+          sign * (isStarted ? 1 : 0),
+          sign * (finished ? 1 : 0),
+          sign * (failedActions > 0 ? 1 : 0),
+          sign * failedActions,
+          sign * actions.length,
+          sign * (finished ? finished.duration : 0),
+          sign * (finished ? 1 : 0),
+        );
+      }
+    }
+  }
+
+  /** Most recently received events, newest first */
+  listRecent(limit: number): StoredEvent[] {
+    return this.queryEvents({ limit }).events;
+  }
+
+  /**
+   * Filtered events, newest first, with keyset pagination over
+   * (timestamp, event_id) so pages stay stable while new events arrive
+   */
+  queryEvents(query: EventQuery): EventPage {
+    const conditions: string[] = [];
+    const bindings: (string | number)[] = [];
+
+    if (query.event) {
+      conditions.push("event = ?");
+      bindings.push(`com.jamf.setupmanager.${query.event}`);
+    }
+    if (query.failedOnly) {
+      conditions.push("failed_actions > 0");
+    }
+    if (query.macOSVersion) {
+      conditions.push("macos_version = ?");
+      bindings.push(query.macOSVersion);
+    }
+    if (query.model) {
+      conditions.push("(model_name = ? COLLATE NOCASE OR model_identifier = ? COLLATE NOCASE)");
+      bindings.push(query.model, query.model);
+    }
+    if (query.serialNumber) {
+      conditions.push("serial_number = ? COLLATE NOCASE");
+      bindings.push(query.serialNumber);
+    }
+    if (query.computerName) {
+      conditions.push("computer_name = ? COLLATE NOCASE");
+      bindings.push(query.computerName);
+    }
+    if (query.userID) {
+      conditions.push("user_id = ? COLLATE NOCASE");
+      bindings.push(query.userID);
+    }
+    if (query.department) {
+      conditions.push("department = ? COLLATE NOCASE");
+      bindings.push(query.department);
+    }
+    if (query.site) {
+      conditions.push("site = ?");
+      bindings.push(query.site);
+    }
+    if (query.from !== undefined) {
+      conditions.push("timestamp >= ?");
+      bindings.push(query.from);
+    }
+    if (query.to !== undefined) {
+      conditions.push("timestamp <= ?");
+      bindings.push(query.to);
+    }
+
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+    if (cursor) {
+      conditions.push("(timestamp < ? OR (timestamp = ? AND event_id < ?))");
+      bindings.push(cursor[0], cursor[0], cursor[1]);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    // Fetch one extra row to learn whether another page exists
+    const rows = this.sql
+      .exec<EventRow>(
+        `SELECT ${EVENT_COLUMNS} FROM events ${where}
+         ORDER BY timestamp DESC, event_id DESC
+         LIMIT ?`,
+        ...bindings,
+        query.limit + 1,
+      )
+      .toArray();
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    const hasMore = rows.length > query.limit;
+    return {
+      events: page.map(toStoredEvent),
+      nextCursor: hasMore && last ? encodeCursor(last.timestamp, last.event_id) : null,
+    };
+  }
+
+  /**
+   * Events belonging to the `limit` most recently active sessions, plus every
+   * other event of the same devices so abandoned runs can be recognized
+   */
+  listSessionEvents(limit: number): StoredEvent[] {
+    const serials = this.sql
+      .exec<{ serial_number: string }>(
+        `SELECT serial_number FROM events
+         WHERE event IN ('com.jamf.setupmanager.started', 'com.jamf.setupmanager.finished')
+         GROUP BY session_id
+         ORDER BY MAX(timestamp) DESC
+         LIMIT ?`,
+        limit,
+      )
+      .toArray()
+      .map((row) => row.serial_number);
+
+    const unique = Array.from(new Set(serials));
+    if (unique.length === 0) return [];
+
+    return this.sql
+      .exec<EventRow>(
+        `SELECT ${EVENT_COLUMNS} FROM events
+         WHERE serial_number IN (${unique.map(() => "?").join(", ")})
+         ORDER BY timestamp DESC`,
+        ...unique,
+      )
+      .toArray()
+      .map(toStoredEvent);
+  }
+
+  /**
+   * Fleet statistics over a time range. Counts come from the rollups so they
+   * cover the full retention window at constant cost; ranges are widened to
+   * whole buckets (UTC days for groupBy=day, UTC hours otherwise). Device
+   * counts, the last event time and duration percentiles come from the raw
+   * events, since they cannot be summed across buckets.
+   */
+  getStats(query: StatsQuery = {}): StatsResponse {
+    const granularity: RollupGranularity = query.groupBy === "day" ? "day" : "hour";
+    const size = ROLLUP_GRANULARITIES[granularity];
+    const from = query.from !== undefined ? Math.floor(query.from / size) * size : null;
+    const to = query.to ?? null;
+
+    const range: string[] = [];
+    const rangeBindings: number[] = [];
+    if (from !== null) {
+      range.push("bucket >= ?");
+      rangeBindings.push(from);
+    }
+    if (to !== null) {
+      range.push("bucket <= ?");
+      rangeBindings.push(to);
+    }
+    const rangeSql = range.map((c) => ` AND ${c}`).join("");
+
+    const totals = this.sql
+      .exec<RollupTotals>(
+        `SELECT ${ROLLUP_SUMS} FROM rollups
+         WHERE granularity = ? AND dimension = 'all'${rangeSql}`,
+        granularity,
+        ...rangeBindings,
+      )
+      .one();
+
+    const facts = this.getRawFacts("''", from, to).get("") ?? EMPTY_RAW_FACTS;
+    const response: StatsResponse = {
+      ...toStats(totals, facts),
+      from,
+      to,
+      durationHistogram: buildDurationHistogram(facts.durations),
+    };
+
+    if (query.groupBy) {
+      response.groupBy = query.groupBy;
+      response.groups = this.getStatsGroups(query.groupBy, granularity, rangeSql, rangeBindings, from, to);
+    }
+
+    return response;
+  }
+
+  private getStatsGroups(
+    groupBy: StatsGroupBy,
+    granularity: RollupGranularity,
+    rangeSql: string,
+    rangeBindings: number[],
+    from: number | null,
+    to: number | null,
+  ): StatsGroup[] {
+    const grouping = GROUP_BY_DIMENSIONS[groupBy];
+
+    if (grouping) {
+      const facts = this.getRawFacts(grouping.expression, from, to);
+
+      return this.sql
+        .exec<RollupTotals & { key: string }>(
+          `SELECT dimension_value AS key, ${ROLLUP_SUMS} FROM rollups
+           WHERE granularity = ? AND dimension = ?${rangeSql}
+           GROUP BY dimension_value
+           ORDER BY SUM(started) + SUM(finished) DESC`,
+          granularity,
+          grouping.dimension,
+          ...rangeBindings,
+        )
+        .toArray()
+        .map((row) => ({
+          key: row.key,
+          ...toStats(row, facts.get(row.key) ?? EMPTY_RAW_FACTS),
+        }));
+    }
+
+    // Time series: one group per hour or day bucket
+    const size = ROLLUP_GRANULARITIES[granularity];
+    const facts = this.getRawFacts(`(timestamp / ${size}) * ${size}`, from, to);
+
+    return this.sql
+      .exec<RollupTotals & { bucket: number }>(
+        `SELECT bucket, ${ROLLUP_SUMS} FROM rollups
+         WHERE granularity = ? AND dimension = 'all'${rangeSql}
+         GROUP BY bucket
+         ORDER BY bucket`,
+        granularity,
+        ...rangeBindings,
+      )
+      .toArray()
+      .map((row) => ({
+        key: new Date(row.bucket).toISOString(),
+        ...toStats(row, facts.get(String(row.bucket)) ?? EMPTY_RAW_FACTS),
+      }));
+  }
+
+  /**
+   * Per-group facts that can only be derived from raw events,
+   * grouped by the SQL expression `keyExpression`
+   */
+  private getRawFacts(
+    keyExpression: string,
+    from: number | null,
+    to: number | null,
+  ): Map<string, RawFacts> {
+    const eventRange = this.eventRange(from, to);
+    const facts = new Map<string, RawFacts>();
+
+    const rows = this.sql.exec<{ key: string | number; devices: number; last_event_time: number }>(
+      `SELECT ${keyExpression} AS key, COUNT(DISTINCT serial_number) AS devices,
+         MAX(timestamp) AS last_event_time
+       FROM events ${eventRange.where}
+       GROUP BY 1`,
+      ...eventRange.bindings,
+    );
+    for (const row of rows) {
+      facts.set(String(row.key), {
+        devices: row.devices,
+        lastEventTime: row.last_event_time,
+        durations: [],
+      });
+    }
+
+    // Rows arrive sorted by duration, so each group's list stays sorted
+    const durations = this.sql.exec<{ key: string | number; duration: number }>(
+      `SELECT ${keyExpression} AS key, duration FROM events
+       ${eventRange.where ? `${eventRange.where} AND` : "WHERE"}
+         event = 'com.jamf.setupmanager.finished' AND duration IS NOT NULL
+       ORDER BY duration`,
+      ...eventRange.bindings,
+    );
+    for (const row of durations) {
+      facts.get(String(row.key))?.durations.push(row.duration);
+    }
+
+    return facts;
+  }
+
+  private eventRange(from: number | null, to: number | null): { where: string; bindings: number[] } {
+    const conditions: string[] = [];
+    const bindings: number[] = [];
+    if (from !== null) {
+      conditions.push("timestamp >= ?");
+      bindings.push(from);
+    }
+    if (to !== null) {
+      conditions.push("timestamp <= ?");
+      bindings.push(to);
+    }
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+      bindings,
+    };
+  }
+
+  count(): number {
+    return this.sql.exec<{ count: number }>("SELECT COUNT(*) AS count FROM events").one().count;
+  }
+
+  incrementCounter(name: string, by = 1): void {
+    this.sql.exec(
+      `INSERT INTO counters (name, value) VALUES (?, ?)
+       ON CONFLICT (name) DO UPDATE SET value = value + excluded.value`,
+      name,
+      by,
+    );
+  }
+
+  getCounter(name: string): number {
+    const rows = this.sql
+      .exec<{ value: number }>("SELECT value FROM counters WHERE name = ?", name)
+      .toArray();
+    return rows[0]?.value ?? 0;
+  }
+
+  /**
+   * Record a signed webhook's nonce until `expiresAt` (ms).
+   * Returns false if the nonce was already seen, i.e. the request is a replay.
+   */
+  claimNonce(nonce: string, expiresAt: number): boolean {
+    this.sql.exec("DELETE FROM webhook_nonces WHERE expires_at < ?", Date.now());
+    const cursor = this.sql.exec(
+      "INSERT OR IGNORE INTO webhook_nonces (nonce, expires_at) VALUES (?, ?)",
+      nonce,
+      expiresAt,
+    );
+    return cursor.rowsWritten > 0;
+  }
+
+  /** Register a webhook token by the hash of its secret */
+  createWebhookToken(name: string, site: string | null, tokenHash: string): WebhookToken {
+    const row = this.sql
+      .exec<WebhookTokenRow>(
+        `INSERT INTO webhook_tokens (id, name, site, token_hash, created_at)
+         VALUES (?, ?, ?, ?, ?)
+         RETURNING ${WEBHOOK_TOKEN_COLUMNS}`,
+        crypto.randomUUID(),
+        name,
+        site,
+        tokenHash,
+        Date.now(),
+      )
+      .one();
+    return toWebhookToken(row);
+  }
+
+  /** All webhook tokens, including revoked ones, newest first */
+  listWebhookTokens(): WebhookToken[] {
+    return this.sql
+      .exec<WebhookTokenRow>(
+        `SELECT ${WEBHOOK_TOKEN_COLUMNS} FROM webhook_tokens ORDER BY created_at DESC`
+      )
+      .toArray()
+      .map(toWebhookToken);
+  }
+
+  /**
+   * Revoke a webhook token. Returns null if no token has that ID;
+   * revoking an already revoked token keeps its original revocation time.
+   */
+  revokeWebhookToken(id: string): WebhookToken | null {
+    const rows = this.sql
+      .exec<WebhookTokenRow>(
+        `UPDATE webhook_tokens SET revoked_at = COALESCE(revoked_at, ?)
+         WHERE id = ?
+         RETURNING ${WEBHOOK_TOKEN_COLUMNS}`,
+        Date.now(),
+        id,
+      )
+      .toArray();
+    return rows[0] ? toWebhookToken(rows[0]) : null;
+  }
+
+  /**
+   * Look up an active (unrevoked) webhook token by hash and record its use.
+   * Returns null if the hash is unknown or the token was revoked.
+   */
+  useWebhookToken(tokenHash: string): WebhookToken | null {
+    const rows = this.sql
+      .exec<WebhookTokenRow>(
+        `UPDATE webhook_tokens SET last_used_at = ?
+         WHERE token_hash = ? AND revoked_at IS NULL
+         RETURNING ${WEBHOOK_TOKEN_COLUMNS}`,
+        Date.now(),
+        tokenHash,
+      )
+      .toArray();
+    return rows[0] ? toWebhookToken(rows[0]) : null;
+  }
+
+  /** Whether any unrevoked webhook token exists, i.e. tokens are enforced */
+  hasActiveWebhookTokens(): boolean {
+    return (
+      this.sql
+        .exec("SELECT 1 FROM webhook_tokens WHERE revoked_at IS NULL LIMIT 1")
+        .toArray().length > 0
+    );
+  }
+
+  /** Register a service token by the hash of its secret */
+  createServiceToken(
+    name: string,
+    scopes: ServiceTokenScope[],
+    expiresAt: number | null,
+    tokenHash: string,
+  ): ServiceToken {
+    const row = this.sql
+      .exec<ServiceTokenRow>(
+        `INSERT INTO service_tokens (id, name, scopes, token_hash, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         RETURNING ${SERVICE_TOKEN_COLUMNS}`,
+        crypto.randomUUID(),
+        name,
+        JSON.stringify(scopes),
+        tokenHash,
+        Date.now(),
+        expiresAt,
+      )
+      .one();
+    return toServiceToken(row);
+  }
+
+  /** All service tokens, including revoked and expired ones, newest first */
+  listServiceTokens(): ServiceToken[] {
+    return this.sql
+      .exec<ServiceTokenRow>(
+        `SELECT ${SERVICE_TOKEN_COLUMNS} FROM service_tokens ORDER BY created_at DESC`
+      )
+      .toArray()
+      .map(toServiceToken);
+  }
+
+  /** Revoke a service token; see revokeWebhookToken */
+  revokeServiceToken(id: string): ServiceToken | null {
+    const rows = this.sql
+      .exec<ServiceTokenRow>(
+        `UPDATE service_tokens SET revoked_at = COALESCE(revoked_at, ?)
+         WHERE id = ?
+         RETURNING ${SERVICE_TOKEN_COLUMNS}`,
+        Date.now(),
+        id,
+      )
+      .toArray();
+    return rows[0] ? toServiceToken(rows[0]) : null;
+  }
+
+  /**
+   * Look up a usable service token by hash and record its use. Returns
+   * null if the hash is unknown or the token was revoked or has expired.
+   */
+  useServiceToken(tokenHash: string): ServiceToken | null {
+    const now = Date.now();
+    const rows = this.sql
+      .exec<ServiceTokenRow>(
+        `UPDATE service_tokens SET last_used_at = ?
+         WHERE token_hash = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+         RETURNING ${SERVICE_TOKEN_COLUMNS}`,
+        now,
+        tokenHash,
+        now,
+      )
+      .toArray();
+    return rows[0] ? toServiceToken(rows[0]) : null;
+  }
+
+  /**
+   * Quarantine a rejected webhook payload. Only the most recent
+   * MAX_REJECTED_PAYLOADS are kept, so a flood of bad requests cannot
+   * grow the store without bound.
+   */
+  insertRejected(
+    rejected: Omit<RejectedPayload, "id" | "reingestedAt" | "eventId">,
+  ): RejectedPayload {
+    return this.storage.transactionSync(() => {
+      const row = this.sql
+        .exec<RejectedPayloadRow>(
+          `INSERT INTO rejected_payloads (id, received_at, error, body, headers, site)
+           VALUES (?, ?, ?, ?, ?, ?)
+           RETURNING *`,
+          crypto.randomUUID(),
+          rejected.receivedAt,
+          rejected.error,
+          rejected.body,
+          JSON.stringify(rejected.headers),
+          rejected.site,
+        )
+        .one();
+      this.sql.exec(
+        `DELETE FROM rejected_payloads WHERE id NOT IN (
+           SELECT id FROM rejected_payloads ORDER BY received_at DESC LIMIT ?
+         )`,
+        MAX_REJECTED_PAYLOADS,
+      );
+      return toRejectedPayload(row);
+    });
+  }
+
+  /** Quarantined payloads, optionally only those rejected for `error` */
+  listRejected(limit: number, error?: string): RejectedPage {
+    const where = error ? "WHERE error = ?" : "";
+    const bindings = error ? [error] : [];
+    const rejected = this.sql
+      .exec<RejectedPayloadRow>(
+        `SELECT * FROM rejected_payloads ${where} ORDER BY received_at DESC LIMIT ?`,
+        ...bindings,
+        limit,
+      )
+      .toArray()
+      .map(toRejectedPayload);
+
+    const reasons = this.sql
+      .exec<{ error: string; count: number }>(
+        `SELECT error, COUNT(*) AS count FROM rejected_payloads
+         GROUP BY error ORDER BY count DESC`
+      )
+      .toArray();
+
+    return {
+      rejected,
+      reasons,
+      total: reasons.reduce((sum, reason) => sum + reason.count, 0),
+    };
+  }
+
+  getRejected(id: string): RejectedPayload | null {
+    const rows = this.sql
+      .exec<RejectedPayloadRow>("SELECT * FROM rejected_payloads WHERE id = ?", id)
+      .toArray();
+    return rows[0] ? toRejectedPayload(rows[0]) : null;
+  }
+
+  /** Record that a quarantined payload was re-ingested as event `eventId` */
+  markRejectedReingested(id: string, eventId: string): RejectedPayload | null {
+    const rows = this.sql
+      .exec<RejectedPayloadRow>(
+        `UPDATE rejected_payloads SET reingested_at = ?, event_id = ?
+         WHERE id = ?
+         RETURNING *`,
+        Date.now(),
+        eventId,
+        id,
+      )
+      .toArray();
+    return rows[0] ? toRejectedPayload(rows[0]) : null;
+  }
+
+  /**
+   * Rewrite up to `limit` events stored in an older format in their migrated
+   * form, re-deriving the indexed columns and moving the event between
+   * rollup dimension values that changed. A migration that changes counted
+   * fields (e.g. durations) has to rebuild the rollups itself.
+   * Returns the number of events rewritten.
+   */
+  rewriteOutdatedEvents(limit: number): number {
+    const rows = this.sql
+      .exec<EventRow>(
+        `SELECT ${EVENT_COLUMNS} FROM events WHERE schema_version < ? LIMIT ?`,
+        CURRENT_EVENT_SCHEMA_VERSION,
+        limit,
+      )
+      .toArray();
+
+    this.storage.transactionSync(() => {
+      for (const row of rows) {
+        const previous = toEventRecord(row);
+        const migrated = migrateStoredEvent(previous);
+        this.sql.exec("DELETE FROM events WHERE event_id = ?", row.event_id);
+        this.insertEvent(migrated);
+        this.moveRollups(previous, migrated);
+      }
+    });
+    return rows.length;
+  }
+
+  /** Recount an event under the rollup dimension values that changed when it was migrated */
+  private moveRollups(previous: StoredEventRecord, migrated: StoredEvent): void {
+    // Only Started and Finished events are counted
+    if (!isKnownPayload(previous.payload) || !isKnownEvent(migrated)) return;
+    const counted: CountedEvent = {
+      payload: previous.payload,
+      timestamp: previous.timestamp,
+      enrichment: previous.enrichment,
+    };
+
+    const changed = Object.entries(ROLLUP_DIMENSIONS)
+      .filter(([, valueOf]) => valueOf(counted) !== valueOf(migrated))
+      .map(([dimension]) => dimension);
+    if (changed.length === 0) return;
+
+    this.updateRollups(counted, -1, changed);
+    this.updateRollups(migrated, 1, changed);
+  }
+
+  createNotificationChannel(input: NotificationChannelInput): NotificationChannel {
+    const row = this.sql
+      .exec<NotificationChannelRow>(
+        `INSERT INTO notification_channels (id, name, type, url, triggers, template, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`,
+        crypto.randomUUID(),
+        input.name,
+        input.type,
+        input.url,
+        JSON.stringify(input.triggers),
+        input.template,
+        Date.now(),
+      )
+      .one();
+    return toNotificationChannel(row);
+  }
+
+  listNotificationChannels(): NotificationChannel[] {
+    return this.sql
+      .exec<NotificationChannelRow>("SELECT * FROM notification_channels ORDER BY created_at DESC")
+      .toArray()
+      .map(toNotificationChannel);
+  }
+
+  /**
+   * Delete a channel; its pending deliveries are marked as failed.
+   * Returns the deleted channel, or null if it does not exist.
+   */
+  deleteNotificationChannel(id: string): NotificationChannel | null {
+    return this.storage.transactionSync(() => {
+      const rows = this.sql
+        .exec<NotificationChannelRow>("DELETE FROM notification_channels WHERE id = ? RETURNING *", id)
+        .toArray();
+      if (!rows[0]) return null;
+
+      this.sql.exec(
+        `UPDATE notification_deliveries
+         SET status = 'failed', next_attempt_at = NULL, last_error = 'Channel deleted'
+         WHERE channel_id = ? AND status = 'pending'`,
+        id,
+      );
+      return toNotificationChannel(rows[0]);
+    });
+  }
+
+  /**
+   * Queue a rendered notification for immediate delivery. Only the most
+   * recent MAX_NOTIFICATION_DELIVERIES finished deliveries are kept.
+   */
+  queueNotification(channelId: string, trigger: NotificationTrigger, subject: string, body: string): void {
+    const now = Date.now();
+    this.storage.transactionSync(() => {
+      this.sql.exec(
+        `INSERT INTO notification_deliveries (
+          id, channel_id, trigger_name, subject, body, status, next_attempt_at, created_at
+        ) VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)`,
+        crypto.randomUUID(),
+        channelId,
+        trigger,
+        subject,
+        body,
+        now,
+        now,
+      );
+      this.sql.exec(
+        `DELETE FROM notification_deliveries
+         WHERE status != 'pending' AND id NOT IN (
+           SELECT id FROM notification_deliveries ORDER BY created_at DESC LIMIT ?
+         )`,
+        MAX_NOTIFICATION_DELIVERIES,
+      );
+    });
+  }
+
+  /** Pending notifications due at `now`, oldest first */
+  listDueNotifications(now: number, limit: number): DueNotification[] {
+    return this.sql
+      .exec<DueNotification>(
+        `SELECT d.id AS id, c.url AS url, d.body AS body, d.attempts AS attempts
+         FROM notification_deliveries d
+         JOIN notification_channels c ON c.id = d.channel_id
+         WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+         ORDER BY d.next_attempt_at
+         LIMIT ?`,
+        now,
+        limit,
+      )
+      .toArray();
+  }
+
+  /** Record the outcome of a delivery attempt */
+  updateNotificationDelivery(
+    id: string,
+    outcome: Pick<NotificationDelivery, "status" | "nextAttemptAt" | "lastError" | "deliveredAt">,
+  ): void {
+    this.sql.exec(
+      `UPDATE notification_deliveries
+       SET attempts = attempts + 1, status = ?, next_attempt_at = ?, last_error = ?, delivered_at = ?
+       WHERE id = ?`,
+      outcome.status,
+      outcome.nextAttemptAt,
+      outcome.lastError,
+      outcome.deliveredAt,
+      id,
+    );
+  }
+
+  /** Time (ms) of the earliest pending delivery attempt, if any */
+  nextNotificationAttempt(): number | null {
+    return this.sql
+      .exec<{ next: number | null }>(
+        "SELECT MIN(next_attempt_at) AS next FROM notification_deliveries WHERE status = 'pending'"
+      )
+      .one().next;
+  }
+
+  /** Delivery log, newest first, optionally only deliveries with `status` */
+  listNotificationDeliveries(
+    limit: number,
+    status?: NotificationDeliveryStatus,
+  ): NotificationDelivery[] {
+    const where = status ? "WHERE d.status = ?" : "";
+    const bindings = status ? [status] : [];
+    return this.sql
+      .exec<NotificationDeliveryRow>(
+        `SELECT d.id, d.channel_id, c.name AS channel_name, d.trigger_name, d.subject, d.status,
+           d.attempts, d.next_attempt_at, d.last_error, d.created_at, d.delivered_at
+         FROM notification_deliveries d
+         LEFT JOIN notification_channels c ON c.id = d.channel_id
+         ${where}
+         ORDER BY d.created_at DESC
+         LIMIT ?`,
+        ...bindings,
+        limit,
+      )
+      .toArray()
+      .map(toNotificationDelivery);
+  }
+
+  createAlertRule(input: AlertRuleInput): AlertRule {
+    const row = this.sql
+      .exec<AlertRuleRow>(
+        `INSERT INTO alert_rules (
+          id, name, metric, operator, threshold, window_minutes, action, business_hours, time_zone, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING *`,
+        crypto.randomUUID(),
+        input.name,
+        input.metric,
+        input.operator,
+        input.threshold,
+        input.window === "today" ? null : input.window,
+        input.action,
+        input.businessHours ? JSON.stringify(input.businessHours) : null,
+        input.timeZone,
+        Date.now(),
+      )
+      .one();
+    return toAlertRule(row);
+  }
+
+  listAlertRules(): AlertRule[] {
+    return this.sql
+      .exec<AlertRuleRow>("SELECT * FROM alert_rules ORDER BY created_at")
+      .toArray()
+      .map(toAlertRule);
+  }
+
+  /** Delete a rule; returns it, or null if it does not exist */
+  deleteAlertRule(id: string): AlertRule | null {
+    const rows = this.sql
+      .exec<AlertRuleRow>("DELETE FROM alert_rules WHERE id = ? RETURNING *", id)
+      .toArray();
+    return rows[0] ? toAlertRule(rows[0]) : null;
+  }
+
+  /**
+   * Current value of a rule's metric over events received since `since`
+   * (ms). Null when there is nothing to measure, e.g. a failure rate
+   * without any actions.
+   */
+  getAlertMetric(rule: AlertRule, since: number): number | null {
+    if (rule.metric === "finished-events") {
+      return this.sql
+        .exec<{ count: number }>(
+          `SELECT COUNT(*) AS count FROM events
+           WHERE event = 'com.jamf.setupmanager.finished' AND timestamp >= ?`,
+          since,
+        )
+        .one().count;
+    }
+
+    if (rule.metric === "p90-duration") {
+      const durations = this.sql
+        .exec<{ duration: number }>(
+          `SELECT duration FROM events
+           WHERE event = 'com.jamf.setupmanager.finished' AND timestamp >= ? AND duration IS NOT NULL
+           ORDER BY duration`,
+          since,
+        )
+        .toArray()
+        .map((row) => row.duration);
+      return durations.length > 0 ? percentile(durations, 90) / 60 : null;
+    }
+
+    // Action metrics count the actions reported by Finished events
+    const actions = rule.action
+      ? this.sql
+          .exec<{ failed: number | null; total: number }>(
+            `SELECT SUM(json_extract(a.value, '$.status') = 'failed') AS failed, COUNT(*) AS total
+             FROM events e, json_each(e.payload, '$.enrollmentActions') a
+             WHERE e.event = 'com.jamf.setupmanager.finished' AND e.timestamp >= ?
+               AND json_extract(a.value, '$.label') = ?`,
+            since,
+            rule.action,
+          )
+          .one()
+      : this.sql
+          .exec<{ failed: number | null; total: number | null }>(
+            `SELECT SUM(failed_actions) AS failed, SUM(total_actions) AS total FROM events
+             WHERE event = 'com.jamf.setupmanager.finished' AND timestamp >= ?`,
+            since,
+          )
+          .one();
+    const failed = actions.failed ?? 0;
+    const total = actions.total ?? 0;
+
+    if (rule.metric === "action-failures") return failed;
+    return total > 0 ? (failed / total) * 100 : null;
+  }
+
+  getActiveAlert(ruleId: string): Alert | null {
+    const rows = this.sql
+      .exec<AlertRow>("SELECT * FROM alerts WHERE rule_id = ? AND resolved_at IS NULL", ruleId)
+      .toArray();
+    return rows[0] ? toAlert(rows[0]) : null;
+  }
+
+  raiseAlert(rule: AlertRule, value: number, message: string, now: number): Alert {
+    const row = this.sql
+      .exec<AlertRow>(
+        `INSERT INTO alerts (id, rule_id, rule_name, metric, message, value, threshold, raised_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`,
+        crypto.randomUUID(),
+        rule.id,
+        rule.name,
+        rule.metric,
+        message,
+        value,
+        rule.threshold,
+        now,
+      )
+      .one();
+    return toAlert(row);
+  }
+
+  /**
+   * Resolve an active alert. Only the most recent MAX_RESOLVED_ALERTS
+   * resolved alerts are kept.
+   */
+  resolveAlert(id: string, now: number): Alert | null {
+    return this.storage.transactionSync(() => {
+      const rows = this.sql
+        .exec<AlertRow>(
+          "UPDATE alerts SET resolved_at = ? WHERE id = ? AND resolved_at IS NULL RETURNING *",
+          now,
+          id,
+        )
+        .toArray();
+      this.sql.exec(
+        `DELETE FROM alerts
+         WHERE resolved_at IS NOT NULL AND id NOT IN (
+           SELECT id FROM alerts WHERE resolved_at IS NOT NULL ORDER BY resolved_at DESC LIMIT ?
+         )`,
+        MAX_RESOLVED_ALERTS,
+      );
+      return rows[0] ? toAlert(rows[0]) : null;
+    });
+  }
+
+  /** Alerts, most recently raised first: all, only active or only resolved ones */
+  listAlerts(limit: number, state?: "active" | "resolved"): Alert[] {
+    const where =
+      state === "active"
+        ? "WHERE resolved_at IS NULL"
+        : state === "resolved"
+          ? "WHERE resolved_at IS NOT NULL"
+          : "";
+    return this.sql
+      .exec<AlertRow>(`SELECT * FROM alerts ${where} ORDER BY raised_at DESC LIMIT ?`, limit)
+      .toArray()
+      .map(toAlert);
+  }
+
+  /**
+   * Delete everything stored about a device: its events (taking them out of
+   * the rollups), quarantined payloads carrying its serial number and
+   * notifications about its events or sessions. The erasure itself is
+   * recorded in the erasure log.
+   */
+  eraseDevice(serialNumber: string, requestedBy: string | null): DeviceErasure {
+    return this.storage.transactionSync(() => {
+      const events = this.sql
+        .exec<EventRow>(
+          `SELECT ${EVENT_COLUMNS} FROM events WHERE serial_number = ? COLLATE NOCASE`,
+          serialNumber,
+        )
+        .toArray()
+        .map(toStoredEvent);
+
+      for (const event of events) {
+        if (isKnownEvent(event)) this.updateRollups(event, -1);
+      }
+      // Buckets that only counted this device would otherwise stay behind as empty groups
+      this.sql.exec("DELETE FROM rollups WHERE started <= 0 AND finished <= 0");
+      this.sql.exec("DELETE FROM events WHERE serial_number = ? COLLATE NOCASE", serialNumber);
+
+      // Raw bodies are matched on the serial number as a JSON string
+      const rejectedPayloads = this.sql.exec(
+        "DELETE FROM rejected_payloads WHERE instr(body, ?) > 0",
+        JSON.stringify(serialNumber),
+      ).rowsWritten;
+
+      // Notifications are about an event ID or a session ID ("<serial>:<started>")
+      const notifications = this.sql.exec(
+        `DELETE FROM notification_deliveries
+         WHERE subject IN (SELECT value FROM json_each(?)) OR substr(subject, 1, ?) = ? COLLATE NOCASE`,
+        JSON.stringify(events.map((event) => event.eventId)),
+        serialNumber.length + 1,
+        `${serialNumber}:`,
+      ).rowsWritten;
+
+      const row = this.sql
+        .exec<DeviceErasureRow>(
+          `INSERT INTO device_erasures (
+            id, serial_number, requested_by, erased_at, events, rejected_payloads, notifications
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)
+          RETURNING *`,
+          crypto.randomUUID(),
+          serialNumber,
+          requestedBy,
+          Date.now(),
+          events.length,
+          rejectedPayloads,
+          notifications,
+        )
+        .one();
+      return toDeviceErasure(row);
+    });
+  }
+
+  /** Erasure log, newest first */
+  listDeviceErasures(limit: number): DeviceErasure[] {
+    return this.sql
+      .exec<DeviceErasureRow>("SELECT * FROM device_erasures ORDER BY erased_at DESC LIMIT ?", limit)
+      .toArray()
+      .map(toDeviceErasure);
+  }
+
+  appendAuditEntry(entry: Omit<AuditEntry, "id" | "time">): AuditEntry {
+    const row = this.sql
+      .exec<AuditEntryRow>(
+        `INSERT INTO audit_log (time, actor, role, action, target, details)
+         VALUES (?, ?, ?, ?, ?, ?)
+         RETURNING *`,
+        Date.now(),
+        entry.actor,
+        entry.role,
+        entry.action,
+        entry.target,
+        entry.details ? JSON.stringify(entry.details) : null,
+      )
+      .one();
+    return toAuditEntry(row);
+  }
+
+  /**
+   * Audit log entries, newest first. `before` is the ID of the last entry
+   * of the previous page.
+   */
+  listAuditEntries(query: {
+    limit: number;
+    action?: AuditAction;
+    actor?: string;
+    before?: number;
+  }): AuditEntry[] {
+    const conditions: string[] = [];
+    const bindings: (string | number)[] = [];
+    if (query.action) {
+      conditions.push("action = ?");
+      bindings.push(query.action);
+    }
+    if (query.actor) {
+      conditions.push("actor = ?");
+      bindings.push(query.actor);
+    }
+    if (query.before !== undefined) {
+      conditions.push("id < ?");
+      bindings.push(query.before);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    return this.sql
+      .exec<AuditEntryRow>(
+        `SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ?`,
+        ...bindings,
+        query.limit,
+      )
+      .toArray()
+      .map(toAuditEntry);
+  }
+
+  /** Delete events and quarantined payloads received before `cutoff` (ms) */
+  purgeBefore(cutoff: number): void {
+    this.sql.exec("DELETE FROM events WHERE timestamp < ?", cutoff);
+    this.sql.exec("DELETE FROM rejected_payloads WHERE received_at < ?", cutoff);
+  }
+
+  /** Delete rollup buckets that ended before `cutoff` (ms) */
+  purgeRollupsBefore(cutoff: number): void {
+    for (const [granularity, size] of Object.entries(ROLLUP_GRANULARITIES)) {
+      this.sql.exec(
+        "DELETE FROM rollups WHERE granularity = ? AND bucket + ? <= ?",
+        granularity,
+        size,
+        cutoff,
+      );
+    }
+  }
+}
+
+function toStats(row: RollupTotals, facts: RawFacts): Stats {
+  const started = row.started ?? 0;
+  const finished = row.finished ?? 0;
+  const failedActions = row.failed_actions ?? 0;
+  const totalActions = row.total_actions ?? 0;
+  const durationCount = row.duration_count ?? 0;
+
+  return {
+    total: started + finished,
+    started,
+    finished,
+    avgDuration: durationCount > 0 ? Math.round((row.duration_sum ?? 0) / durationCount) : 0,
+    successRate:
+      finished > 0
+        ? Math.round(((finished - (row.finished_with_failures ?? 0)) / finished) * 100)
+        : 0,
+    actionSuccessRate:
+      totalActions > 0 ? Math.round(((totalActions - failedActions) / totalActions) * 100) : 100,
+    failedActions,
+    p50Duration: percentile(facts.durations, 50),
+    p90Duration: percentile(facts.durations, 90),
+    p99Duration: percentile(facts.durations, 99),
+    devices: facts.devices,
+    lastEventTime: facts.lastEventTime,
+  };
+}
+
+/**
+ * A stored event as written, in the format version it was written in. Rows
+ * written by a newer release are read as the newest format this release knows.
+ */
+function toEventRecord(row: EventRow): StoredEventRecord {
+  const fields = {
+    payload: JSON.parse(row.payload) as StoredEvent["payload"],
+    timestamp: row.timestamp,
+    eventId: row.event_id,
+    ...(row.site !== null ? { site: row.site } : {}),
+  };
+  if (row.schema_version < 2) {
+    return { ...fields, schemaVersion: 1 };
+  }
+  return {
+    ...fields,
+    schemaVersion: 2,
+    enrichment: {
+      chipFamily: row.chip_family,
+      modelYear: row.model_year,
+      macOSName: row.macos_name,
+      buildType: row.build_type,
+    },
+  };
+}
+
+/** Read a stored event, upgrading it to the current format */
+function toStoredEvent(row: EventRow): StoredEvent {
+  return migrateStoredEvent(toEventRecord(row));
+}
+
+function toRejectedPayload(row: RejectedPayloadRow): RejectedPayload {
+  return {
+    id: row.id,
+    receivedAt: row.received_at,
+    error: row.error,
+    body: row.body,
+    headers: JSON.parse(row.headers) as Record<string, string>,
+    site: row.site,
+    reingestedAt: row.reingested_at,
+    eventId: row.event_id,
+  };
+}
+
+function toNotificationChannel(row: NotificationChannelRow): NotificationChannel {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    url: row.url,
+    triggers: JSON.parse(row.triggers) as NotificationTrigger[],
+    template: row.template,
+    createdAt: row.created_at,
+  };
+}
+
+function toNotificationDelivery(row: NotificationDeliveryRow): NotificationDelivery {
+  return {
+    id: row.id,
+    channelId: row.channel_id,
+    channelName: row.channel_name,
+    trigger: row.trigger_name,
+    subject: row.subject,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+function toAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    name: row.name,
+    metric: row.metric,
+    operator: row.operator,
+    threshold: row.threshold,
+    window: row.window_minutes ?? "today",
+    action: row.action,
+    businessHours: row.business_hours ? (JSON.parse(row.business_hours) as BusinessHours) : null,
+    timeZone: row.time_zone,
+    createdAt: row.created_at,
+  };
+}
+
+function toAlert(row: AlertRow): Alert {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    ruleName: row.rule_name,
+    metric: row.metric,
+    message: row.message,
+    value: row.value,
+    threshold: row.threshold,
+    raisedAt: row.raised_at,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+function toDeviceErasure(row: DeviceErasureRow): DeviceErasure {
+  return {
+    id: row.id,
+    serialNumber: row.serial_number,
+    requestedBy: row.requested_by,
+    erasedAt: row.erased_at,
+    events: row.events,
+    rejectedPayloads: row.rejected_payloads,
+    notifications: row.notifications,
+  };
+}
+
+function toAuditEntry(row: AuditEntryRow): AuditEntry {
+  return {
+    id: row.id,
+    time: row.time,
+    actor: row.actor,
+    role: row.role,
+    action: row.action,
+    target: row.target,
+    details: row.details ? (JSON.parse(row.details) as Record<string, unknown>) : null,
+  };
+}
+
+function toServiceToken(row: ServiceTokenRow): ServiceToken {
+  return {
+    id: row.id,
+    name: row.name,
+    scopes: JSON.parse(row.scopes) as ServiceTokenScope[],
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+function toWebhookToken(row: WebhookTokenRow): WebhookToken {
+  return {
+    id: row.id,
+    name: row.name,
+    site: row.site,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
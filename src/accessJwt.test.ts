@@ -0,0 +1,265 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { AccessKeySet, verifyAccessJwt } from "./accessJwt";
+
+const CERTS_URL = "https://team.cloudflareaccess.com/cdn-cgi/access/certs";
+const AUDIENCE = "test-audience";
+const ISSUER = "https://team.cloudflareaccess.com";
+const NOW = Date.UTC(2025, 0, 1);
+const SECONDS = NOW / 1000;
+
+interface SigningKey {
+  kid: string;
+  alg: "RS256" | "ES256";
+  privateKey: CryptoKey;
+  jwk: JsonWebKey;
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function encodeJson(value: unknown): string {
+  return base64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function generateKey(kid: string, alg: SigningKey["alg"]): Promise<SigningKey> {
+  const params =
+    alg === "RS256"
+      ? {
+          name: "RSASSA-PKCS1-v1_5",
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: "SHA-256",
+        }
+      : { name: "ECDSA", namedCurve: "P-256" };
+  const pair = (await crypto.subtle.generateKey(params, true, ["sign", "verify"])) as CryptoKeyPair;
+  const jwk = (await crypto.subtle.exportKey("jwk", pair.publicKey)) as JsonWebKey;
+  return { kid, alg, privateKey: pair.privateKey, jwk: { ...jwk, kid, alg } as JsonWebKey };
+}
+
+async function signToken(
+  key: SigningKey,
+  claims: Record<string, unknown> = {},
+  header: Record<string, unknown> = {},
+): Promise<string> {
+  const signingInput = [
+    encodeJson({ alg: key.alg, kid: key.kid, typ: "JWT", ...header }),
+    encodeJson({
+      aud: [AUDIENCE],
+      iss: ISSUER,
+      email: "user@example.com",
+      iat: SECONDS,
+      exp: SECONDS + 3600,
+      ...claims,
+    }),
+  ].join(".");
+  const params =
+    key.alg === "RS256" ? { name: "RSASSA-PKCS1-v1_5" } : { name: "ECDSA", hash: "SHA-256" };
+  const signature = await crypto.subtle.sign(
+    params,
+    key.privateKey,
+    new TextEncoder().encode(signingInput),
+  );
+  return `${signingInput}.${base64Url(new Uint8Array(signature))}`;
+}
+
+/** A locally served key set; `keys` can be swapped to simulate rotation or outages */
+function serveKeys(initial: SigningKey[] | null) {
+  const server = {
+    keys: initial,
+    requests: 0,
+    fetcher: async (url: string): Promise<Response> => {
+      expect(url).toBe(CERTS_URL);
+      server.requests++;
+      if (!server.keys) return new Response("unavailable", { status: 503 });
+      return Response.json({ keys: server.keys.map((key) => key.jwk) });
+    },
+  };
+  return server;
+}
+
+function verify(jwt: string, keys: AccessKeySet, now = NOW) {
+  return verifyAccessJwt(jwt, { audience: AUDIENCE, issuer: ISSUER, keys }, now);
+}
+
+let rsaKey: SigningKey;
+let ecKey: SigningKey;
+let rotatedKey: SigningKey;
+
+beforeAll(async () => {
+  rsaKey = await generateKey("rsa-1", "RS256");
+  ecKey = await generateKey("ec-1", "ES256");
+  rotatedKey = await generateKey("rsa-2", "RS256");
+});
+
+describe("verifyAccessJwt", () => {
+  it("accepts RS256 tokens signed by a published key", async () => {
+    const server = serveKeys([rsaKey, ecKey]);
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher);
+    expect(await verify(await signToken(rsaKey), keys)).toEqual({
+      valid: true,
+      claims: expect.objectContaining({ email: "user@example.com" }),
+    });
+  });
+
+  it("accepts ES256 tokens signed by a published key", async () => {
+    const server = serveKeys([rsaKey, ecKey]);
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher);
+    expect((await verify(await signToken(ecKey), keys)).valid).toBe(true);
+  });
+
+  it("accepts a single audience string", async () => {
+    const server = serveKeys([rsaKey]);
+    const jwt = await signToken(rsaKey, { aud: AUDIENCE });
+    expect((await verify(jwt, new AccessKeySet(CERTS_URL, server.fetcher))).valid).toBe(true);
+  });
+
+  it("rejects tokens whose algorithm does not match the key", async () => {
+    const server = serveKeys([rsaKey, ecKey]);
+    const jwt = await signToken(ecKey, {}, { kid: rsaKey.kid });
+    expect(await verify(jwt, new AccessKeySet(CERTS_URL, server.fetcher))).toEqual({
+      valid: false,
+      error: "no matching key",
+    });
+  });
+
+  it("rejects tampered tokens", async () => {
+    const server = serveKeys([rsaKey]);
+    const [header, , signature] = (await signToken(rsaKey)).split(".");
+    const payload = encodeJson({
+      aud: [AUDIENCE],
+      iss: ISSUER,
+      exp: SECONDS + 3600,
+      email: "admin@example.com",
+    });
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher);
+    expect(await verify(`${header}.${payload}.${signature}`, keys)).toEqual({
+      valid: false,
+      error: "invalid signature",
+    });
+  });
+
+  it("rejects tokens for another audience or issuer", async () => {
+    const keys = new AccessKeySet(CERTS_URL, serveKeys([rsaKey]).fetcher);
+    expect(await verify(await signToken(rsaKey, { aud: ["other"] }), keys)).toEqual({
+      valid: false,
+      error: "invalid audience",
+    });
+    expect(await verify(await signToken(rsaKey, { iss: "https://evil.example" }), keys)).toEqual({
+      valid: false,
+      error: "invalid issuer",
+    });
+  });
+
+  it("checks exp, nbf and iat with 60 seconds of clock skew", async () => {
+    const keys = new AccessKeySet(CERTS_URL, serveKeys([rsaKey]).fetcher);
+    const cases: [Record<string, unknown>, string | null][] = [
+      [{ exp: SECONDS - 30 }, null],
+      [{ exp: SECONDS - 90 }, "token expired"],
+      [{ exp: undefined }, "token expired"],
+      [{ nbf: SECONDS + 30 }, null],
+      [{ nbf: SECONDS + 90 }, "token not yet valid"],
+      [{ iat: SECONDS + 30 }, null],
+      [{ iat: SECONDS + 90 }, "token issued in the future"],
+      [{ iat: "yesterday" }, "token issued in the future"],
+    ];
+    for (const [claims, error] of cases) {
+      const result = await verify(await signToken(rsaKey, claims), keys);
+      expect(result, JSON.stringify(claims)).toEqual(
+        error ? { valid: false, error } : expect.objectContaining({ valid: true }),
+      );
+    }
+  });
+
+  it("rejects malformed tokens and unsupported algorithms without fetching keys", async () => {
+    const server = serveKeys([rsaKey]);
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher);
+    expect(await verify("not-a-token", keys)).toEqual({ valid: false, error: "malformed token" });
+    expect(await verify(await signToken(rsaKey, {}, { alg: "HS256" }), keys)).toEqual({
+      valid: false,
+      error: "unsupported algorithm",
+    });
+    expect(server.requests).toBe(0);
+  });
+});
+
+describe("AccessKeySet", () => {
+  it("fetches the key set once and reuses it", async () => {
+    const server = serveKeys([rsaKey, ecKey]);
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher);
+    await verify(await signToken(rsaKey), keys);
+    await verify(await signToken(ecKey), keys, NOW + 1000);
+    expect(server.requests).toBe(1);
+  });
+
+  it("shares one fetch between concurrent verifications", async () => {
+    const server = serveKeys([rsaKey]);
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher);
+    const jwt = await signToken(rsaKey);
+    const results = await Promise.all([verify(jwt, keys), verify(jwt, keys), verify(jwt, keys)]);
+    expect(results.every((result) => result.valid)).toBe(true);
+    expect(server.requests).toBe(1);
+  });
+
+  it("refetches when a token names an unknown key, to pick up rotated keys", async () => {
+    const server = serveKeys([rsaKey]);
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher);
+    expect((await verify(await signToken(rsaKey), keys)).valid).toBe(true);
+
+    server.keys = [rotatedKey];
+    const later = NOW + 60 * 1000;
+    expect((await verify(await signToken(rotatedKey), keys, later)).valid).toBe(true);
+    expect(server.requests).toBe(2);
+  });
+
+  it("refetches for unknown keys at most once per 30 seconds", async () => {
+    const server = serveKeys([rsaKey]);
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher);
+    await verify(await signToken(rsaKey), keys);
+
+    const unknown = await signToken(rsaKey, {}, { kid: "made-up" });
+    const noKey = { valid: false, error: "no matching key" };
+    expect(await verify(unknown, keys, NOW + 1000)).toEqual(noKey);
+    expect(await verify(unknown, keys, NOW + 2000)).toEqual(noKey);
+    expect(server.requests).toBe(1);
+
+    await verify(unknown, keys, NOW + 31 * 1000);
+    expect(server.requests).toBe(2);
+  });
+
+  it("refetches the key set once it has expired", async () => {
+    const server = serveKeys([rsaKey]);
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher, 60 * 1000);
+    await verify(await signToken(rsaKey), keys);
+    await verify(await signToken(rsaKey), keys, NOW + 59 * 1000);
+    expect(server.requests).toBe(1);
+    await verify(await signToken(rsaKey), keys, NOW + 61 * 1000);
+    expect(server.requests).toBe(2);
+  });
+
+  it("keeps using cached keys while the certs endpoint is down", async () => {
+    const server = serveKeys([rsaKey]);
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher, 60 * 1000);
+    await verify(await signToken(rsaKey), keys);
+
+    server.keys = null;
+    const later = NOW + 2 * 60 * 1000;
+    const jwt = await signToken(rsaKey, { iat: later / 1000, exp: later / 1000 + 3600 });
+    const result = await verify(jwt, keys, later);
+    expect(result.valid).toBe(true);
+    expect(server.requests).toBe(2);
+  });
+
+  it("reports tokens as unverifiable when no keys could ever be fetched", async () => {
+    const server = serveKeys(null);
+    const keys = new AccessKeySet(CERTS_URL, server.fetcher);
+    expect(await verify(await signToken(rsaKey), keys)).toEqual({
+      valid: false,
+      error: "unable to verify token",
+      unavailable: true,
+    });
+  });
+});
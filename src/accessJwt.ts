@@ -0,0 +1,221 @@
+/**
+ * Cloudflare Access JWT verification
+ *
+ * Access signs the CF-Access-Jwt-Assertion header with keys published at
+ * https://<team domain>/cdn-cgi/access/certs. The key set is cached per
+ * isolate and only refetched when it expires or a token names a key it does
+ * not contain, which is how key rotation shows up. If a refetch fails, the
+ * cached keys keep being used until the endpoint recovers.
+ */
+
+import type { AccessClaims } from "./tenants";
+
+/** How long a fetched key set is used before it is fetched again */
+const KEY_SET_TTL = 60 * 60 * 1000;
+
+/** Unknown key ids trigger at most one refetch per interval, so made-up ids cannot flood the endpoint */
+const MIN_REFETCH_INTERVAL = 30 * 1000;
+
+/** Allowed clock skew between Access and the Worker for exp, nbf and iat (seconds) */
+const CLOCK_SKEW_SECONDS = 60;
+
+/** Signature algorithms Access may use, with their Web Crypto parameters */
+const ALGORITHMS = {
+  RS256: {
+    kty: "RSA",
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  ES256: {
+    kty: "EC",
+    importParams: { name: "ECDSA", namedCurve: "P-256" },
+    verifyParams: { name: "ECDSA", hash: "SHA-256" },
+  },
+} as const;
+
+type Algorithm = keyof typeof ALGORITHMS;
+
+type KeyFetcher = (url: string) => Promise<Response>;
+
+export type AccessTokenResult =
+  | { valid: true; claims: AccessClaims }
+  /** `unavailable` is set when the token could not be checked at all because no keys could be fetched */
+  | { valid: false; error: string; unavailable?: boolean };
+
+/** Thrown when the key set cannot be fetched and no earlier copy is cached */
+class KeySetUnavailableError extends Error {}
+
+/** The signing keys of one Access team domain */
+export class AccessKeySet {
+  private keys = new Map<string, JsonWebKey>();
+  private imported = new Map<string, CryptoKey>();
+  private fetchedAt = 0;
+  private lastAttemptAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(
+    readonly certsUrl: string,
+    private readonly fetcher: KeyFetcher = (url) => fetch(url),
+    private readonly ttl = KEY_SET_TTL,
+  ) {}
+
+  /** Key `kid` imported for `alg`, or null if the key set does not contain a matching key */
+  async getVerifyKey(kid: string, alg: Algorithm, now = Date.now()): Promise<CryptoKey | null> {
+    const stale = now - this.fetchedAt >= this.ttl || !this.keys.has(kid);
+    // Without any keys every request retries; with cached ones, retries are throttled
+    const canRefetch =
+      this.keys.size === 0 || now - this.lastAttemptAt >= MIN_REFETCH_INTERVAL;
+    if (stale && canRefetch) {
+      await this.refresh(now);
+    }
+
+    const jwk = this.keys.get(kid);
+    if (!jwk || jwk.kty !== ALGORITHMS[alg].kty || (jwk.alg && jwk.alg !== alg)) {
+      return null;
+    }
+
+    const cacheKey = `${alg}:${kid}`;
+    let key = this.imported.get(cacheKey);
+    if (!key) {
+      key = await crypto.subtle.importKey("jwk", jwk, ALGORITHMS[alg].importParams, false, [
+        "verify",
+      ]);
+      this.imported.set(cacheKey, key);
+    }
+    return key;
+  }
+
+  /** Fetch the key set once, however many requests are waiting for it */
+  private refresh(now: number): Promise<void> {
+    this.pending ??= this.load(now).finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  private async load(now: number): Promise<void> {
+    this.lastAttemptAt = now;
+    let keys: (JsonWebKey & { kid?: string })[];
+    try {
+      const response = await this.fetcher(this.certsUrl);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      ({ keys } = (await response.json()) as { keys: (JsonWebKey & { kid?: string })[] });
+      if (!Array.isArray(keys)) throw new Error("response has no keys");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (this.keys.size === 0) {
+        throw new KeySetUnavailableError(`Failed to fetch Access certs: ${message}`);
+      }
+      console.error(`Failed to refresh Access certs, using cached keys: ${message}`);
+      return;
+    }
+
+    this.keys = new Map(keys.filter((k) => k.kid).map((k) => [k.kid!, k]));
+    this.imported.clear();
+    this.fetchedAt = now;
+  }
+}
+
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function decodeJsonPart(value: string): Record<string, unknown> {
+  const parsed: unknown = JSON.parse(new TextDecoder().decode(decodeBase64Url(value)));
+  if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("token part is not a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Verify an Access token's signature, audience, issuer and validity period.
+ * The signature is checked last, so malformed or expired tokens never
+ * cause a key set fetch.
+ */
+export async function verifyAccessJwt(
+  jwt: string,
+  options: { audience: string; issuer: string; keys: AccessKeySet },
+  now = Date.now(),
+): Promise<AccessTokenResult> {
+  const parts = jwt.split(".");
+  if (parts.length !== 3) {
+    return { valid: false, error: "malformed token" };
+  }
+
+  let header: Record<string, unknown>;
+  let payload: Record<string, unknown>;
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    header = decodeJsonPart(parts[0]);
+    payload = decodeJsonPart(parts[1]);
+    signature = decodeBase64Url(parts[2]);
+  } catch {
+    return { valid: false, error: "malformed token" };
+  }
+
+  const alg = header.alg;
+  if (typeof alg !== "string" || !Object.hasOwn(ALGORITHMS, alg)) {
+    return { valid: false, error: "unsupported algorithm" };
+  }
+  if (typeof header.kid !== "string") {
+    return { valid: false, error: "no matching key" };
+  }
+
+  // Access sends an array, but a single audience string is valid JWT as well
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(options.audience)) {
+    return { valid: false, error: "invalid audience" };
+  }
+  if (payload.iss !== options.issuer) {
+    return { valid: false, error: "invalid issuer" };
+  }
+
+  const seconds = now / 1000;
+  if (!isNumber(payload.exp) || payload.exp < seconds - CLOCK_SKEW_SECONDS) {
+    return { valid: false, error: "token expired" };
+  }
+  if (
+    payload.nbf !== undefined &&
+    (!isNumber(payload.nbf) || payload.nbf > seconds + CLOCK_SKEW_SECONDS)
+  ) {
+    return { valid: false, error: "token not yet valid" };
+  }
+  if (
+    payload.iat !== undefined &&
+    (!isNumber(payload.iat) || payload.iat > seconds + CLOCK_SKEW_SECONDS)
+  ) {
+    return { valid: false, error: "token issued in the future" };
+  }
+
+  let key: CryptoKey | null;
+  try {
+    key = await options.keys.getVerifyKey(header.kid, alg as Algorithm, now);
+  } catch (error) {
+    if (error instanceof KeySetUnavailableError) {
+      console.error(error.message);
+      return { valid: false, error: "unable to verify token", unavailable: true };
+    }
+    throw error;
+  }
+  if (!key) {
+    return { valid: false, error: "no matching key" };
+  }
+
+  const valid = await crypto.subtle.verify(
+    ALGORITHMS[alg as Algorithm].verifyParams,
+    key,
+    signature,
+    new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+  );
+  if (!valid) {
+    return { valid: false, error: "invalid signature" };
+  }
+
+  return { valid: true, claims: payload as AccessClaims };
+}
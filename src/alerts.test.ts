@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatAlertMessage,
+  getEvaluationWindowStart,
+  isThresholdCrossed,
+  parseAlertRuleInput,
+  type AlertRuleInput,
+} from "./alerts";
+import type { AlertRule } from "./types";
+
+const MINUTE = 60 * 1000;
+
+/** Monday, 6 January 2025, in UTC */
+const monday = (hours: number, minutes = 0, seconds = 0) =>
+  Date.UTC(2025, 0, 6, hours, minutes, seconds);
+
+function rule(overrides: Partial<AlertRuleInput> = {}): AlertRule {
+  return {
+    id: "rule-1",
+    name: "Failures",
+    metric: "action-failure-rate",
+    operator: "above",
+    threshold: 10,
+    window: 30,
+    action: null,
+    businessHours: null,
+    timeZone: "UTC",
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+/** Weekdays from 9:00 to 17:00 in Berlin, which is UTC+1 in January */
+const OFFICE = {
+  businessHours: { days: [1, 2, 3, 4, 5], start: 9, end: 17 },
+  timeZone: "Europe/Berlin",
+};
+
+describe("getEvaluationWindowStart", () => {
+  it("looks back the window's minutes, or to local midnight for today", () => {
+    const now = monday(14, 30, 15);
+    expect(getEvaluationWindowStart(rule(), now)).toBe(now - 30 * MINUTE);
+    expect(getEvaluationWindowStart(rule({ window: "today" }), now)).toBe(monday(0));
+  });
+
+  it("starts today at midnight in the rule's time zone", () => {
+    const today = rule({ window: "today", timeZone: "Europe/Berlin" });
+    // 00:30 on Tuesday in Berlin
+    expect(getEvaluationWindowStart(today, monday(23, 30))).toBe(monday(23));
+  });
+
+  it("only evaluates rules with business hours while they are open", () => {
+    const office = rule({ ...OFFICE, window: 60 });
+    expect(getEvaluationWindowStart(office, monday(7, 59))).toBeNull();
+    expect(getEvaluationWindowStart(office, monday(15, 59))).toBe(monday(14, 59));
+    expect(getEvaluationWindowStart(office, monday(16))).toBeNull();
+    // Saturday noon
+    expect(getEvaluationWindowStart(office, Date.UTC(2025, 0, 11, 11))).toBeNull();
+  });
+
+  it("waits until a full window fits into the business day", () => {
+    const office = rule({ ...OFFICE, window: 120 });
+    expect(getEvaluationWindowStart(office, monday(8, 30))).toBeNull();
+    expect(getEvaluationWindowStart(office, monday(10))).toBe(monday(8));
+    expect(getEvaluationWindowStart(office, monday(11))).toBe(monday(9));
+  });
+
+  it("starts today at opening time during business hours", () => {
+    const office = rule({ ...OFFICE, window: "today" });
+    expect(getEvaluationWindowStart(office, monday(8, 1))).toBe(monday(8));
+    expect(getEvaluationWindowStart(office, monday(12))).toBe(monday(8));
+  });
+});
+
+describe("isThresholdCrossed", () => {
+  it("compares strictly in the rule's direction", () => {
+    expect(isThresholdCrossed(rule(), 10.1)).toBe(true);
+    expect(isThresholdCrossed(rule(), 10)).toBe(false);
+    expect(isThresholdCrossed(rule({ operator: "below", threshold: 1 }), 0)).toBe(true);
+    expect(isThresholdCrossed(rule({ operator: "below", threshold: 1 }), 1)).toBe(false);
+  });
+});
+
+describe("formatAlertMessage", () => {
+  it("names the metric, action, value, threshold and window", () => {
+    expect(formatAlertMessage(rule({ action: "Install Office" }), 14.26)).toBe(
+      "Action failure rate of Install Office is 14.3% (above 10%) in the last 30 minutes",
+    );
+    const quiet = rule({ metric: "finished-events", operator: "below", threshold: 1, window: 120 });
+    expect(formatAlertMessage(quiet, 0)).toBe(
+      "Finished enrollments is 0 (below 1) in the last 2 hours",
+    );
+    const slow = rule({ metric: "p90-duration", threshold: 25, window: "today" });
+    expect(formatAlertMessage(slow, 31)).toBe(
+      "p90 enrollment duration is 31 min (above 25 min) today",
+    );
+  });
+});
+
+describe("parseAlertRuleInput", () => {
+  const valid = { name: "Failures", metric: "action-failure-rate", threshold: 10, window: 30 };
+
+  it("fills in defaults", () => {
+    expect(parseAlertRuleInput({ ...valid, name: "  Failures " })).toEqual({
+      ...valid,
+      operator: "above",
+      action: null,
+      businessHours: null,
+      timeZone: "UTC",
+    });
+  });
+
+  it("normalizes business hours", () => {
+    const input = { ...valid, businessHours: { days: [5, 1, 1], start: 9, end: 17 } };
+    expect(parseAlertRuleInput(input)).toMatchObject({
+      businessHours: { days: [1, 5], start: 9, end: 17 },
+    });
+  });
+
+  it("rejects invalid rules", () => {
+    const invalid: Record<string, unknown>[] = [
+      { name: "" },
+      { metric: "cpu" },
+      { operator: "equals" },
+      { threshold: -1 },
+      { window: 0 },
+      { window: 7 * 24 * 60 + 1 },
+      { metric: "p90-duration", action: "Install Office" },
+      { businessHours: { days: [], start: 9, end: 17 } },
+      { businessHours: { days: [1], start: 17, end: 9 } },
+      { timeZone: "Mars/Olympus_Mons" },
+    ];
+    for (const overrides of invalid) {
+      expect(parseAlertRuleInput({ ...valid, ...overrides }), JSON.stringify(overrides)).toEqual({
+        error: expect.any(String),
+      });
+    }
+    expect(parseAlertRuleInput(null)).toEqual({ error: expect.stringMatching(/^name/) });
+  });
+});
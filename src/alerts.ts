@@ -0,0 +1,177 @@
+/**
+ * Threshold-based alert rules
+ *
+ * A rule compares a metric over a trailing window (e.g. the action failure
+ * rate over the last 30 minutes) against a threshold. The dashboard room
+ * evaluates every rule once a minute, raises an alert when the threshold
+ * is crossed and resolves it once the metric is back within bounds.
+ */
+
+import type { AlertMetric, AlertOperator, AlertRule, BusinessHours } from "./types";
+
+export const ALERT_METRICS: readonly AlertMetric[] = [
+  "action-failure-rate",
+  "action-failures",
+  "p90-duration",
+  "finished-events",
+];
+
+const ALERT_OPERATORS: readonly AlertOperator[] = ["above", "below"];
+
+const MAX_RULE_NAME_LENGTH = 100;
+const MAX_ACTION_LENGTH = 200;
+
+/** Windows are limited to a week so evaluation stays cheap */
+const MAX_WINDOW_MINUTES = 7 * 24 * 60;
+
+const MINUTE = 60 * 1000;
+
+const METRIC_LABELS: Record<AlertMetric, { label: string; unit: string }> = {
+  "action-failure-rate": { label: "Action failure rate", unit: "%" },
+  "action-failures": { label: "Failed actions", unit: "" },
+  "p90-duration": { label: "p90 enrollment duration", unit: " min" },
+  "finished-events": { label: "Finished enrollments", unit: "" },
+};
+
+export type AlertRuleInput = Omit<AlertRule, "id" | "createdAt">;
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function parseBusinessHours(value: unknown): BusinessHours | { error: string } {
+  const { days, start, end } = (value ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(days) || days.length === 0 || !days.every((day) => isInteger(day, 0, 6))) {
+    return { error: "businessHours.days must be a non-empty array of weekdays, 0 (Sunday) to 6" };
+  }
+  if (!isInteger(start, 0, 23) || !isInteger(end, 1, 24) || start >= end) {
+    return { error: "businessHours.start and end must be hours with 0 <= start < end <= 24" };
+  }
+  return { days: Array.from(new Set(days as number[])).sort((a, b) => a - b), start, end };
+}
+
+/** Validate the body of POST /api/alerts/rules */
+export function parseAlertRuleInput(body: unknown): AlertRuleInput | { error: string } {
+  const { name, metric, operator, threshold, window, action, businessHours, timeZone } = (body ??
+    {}) as Record<string, unknown>;
+
+  if (typeof name !== "string" || !name.trim() || name.length > MAX_RULE_NAME_LENGTH) {
+    return { error: `name must be a non-empty string of at most ${MAX_RULE_NAME_LENGTH} characters` };
+  }
+  if (!ALERT_METRICS.includes(metric as AlertMetric)) {
+    return { error: `metric must be one of: ${ALERT_METRICS.join(", ")}` };
+  }
+  if (operator !== undefined && !ALERT_OPERATORS.includes(operator as AlertOperator)) {
+    return { error: `operator must be one of: ${ALERT_OPERATORS.join(", ")}` };
+  }
+  if (typeof threshold !== "number" || !Number.isFinite(threshold) || threshold < 0) {
+    return { error: "threshold must be a non-negative number" };
+  }
+  if (window !== "today" && !isInteger(window, 1, MAX_WINDOW_MINUTES)) {
+    return { error: `window must be "today" or a number of minutes from 1 to ${MAX_WINDOW_MINUTES}` };
+  }
+
+  const actionMetric = metric === "action-failure-rate" || metric === "action-failures";
+  if (action !== undefined && action !== null) {
+    if (!actionMetric) {
+      return { error: "action is only supported for action-failure-rate and action-failures" };
+    }
+    if (typeof action !== "string" || !action.trim() || action.length > MAX_ACTION_LENGTH) {
+      return { error: `action must be a non-empty string of at most ${MAX_ACTION_LENGTH} characters` };
+    }
+  }
+
+  let hours: BusinessHours | null = null;
+  if (businessHours !== undefined && businessHours !== null) {
+    const parsed = parseBusinessHours(businessHours);
+    if ("error" in parsed) return parsed;
+    hours = parsed;
+  }
+
+  if (timeZone !== undefined && (typeof timeZone !== "string" || !isValidTimeZone(timeZone))) {
+    return { error: "timeZone must be an IANA time zone such as \"Europe/Berlin\"" };
+  }
+
+  return {
+    name: name.trim(),
+    metric: metric as AlertMetric,
+    operator: (operator as AlertOperator | undefined) ?? "above",
+    threshold,
+    window: window as number | "today",
+    action: typeof action === "string" ? action.trim() : null,
+    businessHours: hours,
+    timeZone: (timeZone as string | undefined) ?? "UTC",
+  };
+}
+
+/** Weekday and minutes since midnight of `now` in `timeZone` */
+function getLocalTime(now: number, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    day: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(part("weekday")),
+    minutes: parseInt(part("hour"), 10) * 60 + parseInt(part("minute"), 10),
+  };
+}
+
+/**
+ * Start (ms) of the window a rule is evaluated over at `now`, or null if
+ * the rule is not evaluated right now. Rules with business hours are only
+ * evaluated once a full window fits into the current business day, so a
+ * rule like "no Finished events in 2 hours" does not fire at opening time
+ * because of the quiet night before; their "today" starts at opening time.
+ */
+export function getEvaluationWindowStart(rule: AlertRule, now: number): number | null {
+  const local = getLocalTime(now, rule.timeZone);
+  const midnight = now - local.minutes * MINUTE - (now % MINUTE);
+
+  if (!rule.businessHours) {
+    return rule.window === "today" ? midnight : now - rule.window * MINUTE;
+  }
+
+  const { days, start, end } = rule.businessHours;
+  if (!days.includes(local.day) || local.minutes < start * 60 || local.minutes >= end * 60) {
+    return null;
+  }
+
+  const opened = midnight + start * 60 * MINUTE;
+  if (rule.window === "today") return opened;
+  const windowStart = now - rule.window * MINUTE;
+  return windowStart >= opened ? windowStart : null;
+}
+
+export function isThresholdCrossed(rule: AlertRule, value: number): boolean {
+  return rule.operator === "above" ? value > rule.threshold : value < rule.threshold;
+}
+
+/** e.g. "Action failure rate of Install Office is 14% (above 10%) in the last 30 minutes" */
+export function formatAlertMessage(rule: AlertRule, value: number): string {
+  const { label, unit } = METRIC_LABELS[rule.metric];
+  const subject = rule.action ? `${label} of ${rule.action}` : label;
+  const period = rule.window === "today" ? "today" : `in the last ${formatWindow(rule.window)}`;
+  const rounded = Math.round(value * 10) / 10;
+  return `${subject} is ${rounded}${unit} (${rule.operator} ${rule.threshold}${unit}) ${period}`;
+}
+
+function formatWindow(minutes: number): string {
+  if (minutes % 60 !== 0) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return hours === 1 ? "hour" : `${hours} hours`;
+}
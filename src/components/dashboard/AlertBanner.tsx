@@ -0,0 +1,41 @@
+import { Badge } from "@/components/ui/badge";
+import { DashboardIcon } from "./DashboardIcon";
+import { Alert02Icon } from "@hugeicons/core-free-icons";
+import type { Alert } from "@/types";
+
+interface AlertBannerProps {
+  alerts: Alert[];
+}
+
+export function AlertBanner({ alerts }: AlertBannerProps) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div
+      role="alert"
+      className="flex items-start gap-4 rounded-xl border border-destructive/50 bg-destructive/10 px-5 py-4 shadow-sm"
+    >
+      <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-muted/70">
+        <DashboardIcon icon={Alert02Icon} size={18} className="text-destructive" />
+      </div>
+      <ul className="flex-1 space-y-2">
+        {alerts.map((alert) => (
+          <li key={alert.id} className="flex flex-wrap items-center justify-between gap-3 text-base">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="font-semibold">{alert.ruleName}</span>
+              <span className="text-muted-foreground">{alert.message}</span>
+            </div>
+            <Badge variant="destructive" className="dashboard-badge text-sm">
+              since {new Date(alert.raisedAt).toLocaleString("en-US", {
+                month: "short",
+                day: "numeric",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </Badge>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,30 +1,50 @@
 import * as React from "react";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import { KpiCards } from "./KpiCards";
 import { EventsTable } from "./EventsTable";
 import { EventsChart } from "./EventsChart";
 import { ActionsChart } from "./ActionsChart";
+import { DurationHistogram } from "./DurationHistogram";
+import { StalledPanel } from "./StalledPanel";
+import { AlertBanner } from "./AlertBanner";
+import { AuditLogCard } from "./AuditLogCard";
 import { Filters } from "./Filters";
 import { ConnectionStatus } from "./ConnectionStatus";
+import { CurrentUserBadge } from "./CurrentUserBadge";
 import { ThemeToggle } from "./ThemeToggle";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import type { FilterState, WebhookPayload } from "@/types";
+import { hasFailedActions } from "@/sessions";
+import { isKnownEvent, type CurrentUser, type FilterState, type WebhookPayload } from "@/types";
 
 export function App() {
-  const { connected, events, stats } = useWebSocket();
+  const { connected, events, stalledSessions, alerts, stats } = useWebSocket();
+  const user = useCurrentUser();
+  // Viewers only look at the dashboard; exports are for operators and admins
+  const canExport = user !== null && user.role !== "viewer";
   const [filters, setFilters] = React.useState<FilterState>({
     eventType: "all",
     macOSVersion: "",
     model: "",
+    chipFamily: "",
+    modelYear: "",
+    macOSName: "",
+    buildType: "",
     timeRange: "all",
     search: "",
   });
 
+  const stalledSessionIds = React.useMemo(
+    () => new Set(stalledSessions.map((s) => s.sessionId)),
+    [stalledSessions]
+  );
+
   const filteredEvents = React.useMemo(() => {
     return events.filter((event) => {
-      const payload = event.payload as WebhookPayload;
+      // Events of types the dashboard doesn't know may lack any of these fields
+      const payload = event.payload as Partial<WebhookPayload>;
 
       if (filters.eventType === "started" && payload.event !== "com.jamf.setupmanager.started") {
         return false;
@@ -32,18 +52,32 @@ export function App() {
       if (filters.eventType === "finished" && payload.event !== "com.jamf.setupmanager.finished") {
         return false;
       }
-      if (filters.eventType === "failed") {
-        const actions = payload.enrollmentActions || [];
-        if (!actions.some((a) => a.status === "failed")) {
-          return false;
-        }
+      if (filters.eventType === "failed" && !hasFailedActions(event)) {
+        return false;
+      }
+
+      if (filters.macOSVersion && !payload.macOSVersion?.includes(filters.macOSVersion)) {
+        return false;
       }
 
-      if (filters.macOSVersion && !payload.macOSVersion.includes(filters.macOSVersion)) {
+      if (
+        filters.model &&
+        !payload.modelName?.toLowerCase().includes(filters.model.toLowerCase())
+      ) {
         return false;
       }
 
-      if (filters.model && !payload.modelName.toLowerCase().includes(filters.model.toLowerCase())) {
+      const { enrichment } = event;
+      if (filters.chipFamily && enrichment.chipFamily !== filters.chipFamily) {
+        return false;
+      }
+      if (filters.modelYear && String(enrichment.modelYear) !== filters.modelYear) {
+        return false;
+      }
+      if (filters.macOSName && enrichment.macOSName !== filters.macOSName) {
+        return false;
+      }
+      if (filters.buildType && enrichment.buildType !== filters.buildType) {
         return false;
       }
 
@@ -76,10 +110,17 @@ export function App() {
     });
   }, [events, filters]);
 
+  // Charts and filter options only cover Started and Finished events
+  const knownEvents = React.useMemo(() => events.filter(isKnownEvent), [events]);
+  const filteredKnownEvents = React.useMemo(
+    () => filteredEvents.filter(isKnownEvent),
+    [filteredEvents]
+  );
+
   if (!connected && events.length === 0) {
     return (
       <div className="min-h-screen bg-background">
-        <Header connected={false} />
+        <Header connected={false} user={user} />
         <main className="mx-auto max-w-7xl px-6 py-8 md:px-8">
           <DashboardSkeleton />
         </main>
@@ -89,9 +130,11 @@ export function App() {
 
   return (
     <div className="min-h-screen bg-background">
-      <Header connected={connected} />
+      <Header connected={connected} user={user} />
       <main className="mx-auto max-w-7xl px-6 py-8 md:px-8">
         <div className="space-y-8">
+          <AlertBanner alerts={alerts} />
+
           <Card className="border-border/70 bg-card/90 shadow-sm">
             <CardHeader className="pb-4">
               <CardTitle className="text-3xl font-semibold tracking-tight md:text-4xl">
@@ -106,7 +149,7 @@ export function App() {
                 {stats.total} total events
               </Badge>
               <Badge variant="secondary" className="dashboard-badge text-sm">
-                {stats.successRate}% action success
+                {stats.actionSuccessRate}% action success
               </Badge>
               <Badge variant={stats.failedActions > 0 ? "destructive" : "secondary"} className="dashboard-badge text-sm">
                 {stats.failedActions} failed actions
@@ -114,10 +157,14 @@ export function App() {
             </CardContent>
           </Card>
 
+          <StalledPanel sessions={stalledSessions} />
+
           <KpiCards
             started={stats.started}
             finished={stats.finished}
-            avgDuration={stats.avgDuration}
+            p50Duration={stats.p50Duration}
+            p90Duration={stats.p90Duration}
+            p99Duration={stats.p99Duration}
             failedActions={stats.failedActions}
           />
 
@@ -130,10 +177,26 @@ export function App() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="pt-0">
-                <EventsChart events={filteredEvents} embedded />
+                <EventsChart events={filteredKnownEvents} embedded />
               </CardContent>
             </Card>
             <Card className="border-border/70 bg-card/90 shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-xl font-semibold">Duration Distribution</CardTitle>
+                <CardDescription className="text-sm md:text-base">
+                  How long finished enrollments took across the retention window, including the long tail.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <DurationHistogram
+                  bins={stats.durationHistogram}
+                  p50Duration={stats.p50Duration}
+                  p90Duration={stats.p90Duration}
+                  embedded
+                />
+              </CardContent>
+            </Card>
+            <Card className="border-border/70 bg-card/90 shadow-sm xl:col-span-2">
               <CardHeader>
                 <CardTitle className="text-xl font-semibold">Action Quality</CardTitle>
                 <CardDescription className="text-sm md:text-base">
@@ -141,20 +204,27 @@ export function App() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="pt-0">
-                <ActionsChart events={filteredEvents} embedded />
+                <ActionsChart events={filteredKnownEvents} embedded />
               </CardContent>
             </Card>
           </div>
 
           <Card className="border-border/70 bg-card/90 shadow-sm">
             <CardHeader className="pb-4">
-              <CardTitle className="text-xl font-semibold">Filter & Export</CardTitle>
+              <CardTitle className="text-xl font-semibold">
+                {canExport ? "Filter & Export" : "Filter"}
+              </CardTitle>
               <CardDescription className="text-sm md:text-base">
                 Narrow down events to find specific devices, versions, and outcomes.
               </CardDescription>
             </CardHeader>
             <CardContent className="pt-0">
-              <Filters filters={filters} onFiltersChange={setFilters} events={events} />
+              <Filters
+                filters={filters}
+                onFiltersChange={setFilters}
+                events={knownEvents}
+                canExport={canExport}
+              />
             </CardContent>
           </Card>
 
@@ -162,13 +232,15 @@ export function App() {
             <CardHeader className="pb-4">
               <CardTitle className="text-xl font-semibold">Recent Events</CardTitle>
               <CardDescription className="text-sm md:text-base">
-                Expanded rows show network and enrollment details per device.
+                Expanded rows show network and enrollment details per device. Switch to sessions to see each enrollment run.
               </CardDescription>
             </CardHeader>
             <CardContent className="pt-0">
-              <EventsTable events={filteredEvents} />
+              <EventsTable events={filteredEvents} stalledSessionIds={stalledSessionIds} />
             </CardContent>
           </Card>
+
+          {user?.role === "admin" && <AuditLogCard />}
         </div>
       </main>
       <PoweredByJamf />
@@ -176,7 +248,7 @@ export function App() {
   );
 }
 
-function Header({ connected }: { connected: boolean }) {
+function Header({ connected, user }: { connected: boolean; user: CurrentUser | null }) {
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/70 bg-background/85 backdrop-blur supports-[backdrop-filter]:bg-background/70">
       <div className="mx-auto flex min-h-16 max-w-7xl items-center justify-between px-6 py-3">
@@ -185,6 +257,7 @@ function Header({ connected }: { connected: boolean }) {
           <ConnectionStatus connected={connected} />
         </div>
         <div className="flex items-center gap-4">
+          <CurrentUserBadge user={user} />
           <ThemeToggle />
         </div>
       </div>
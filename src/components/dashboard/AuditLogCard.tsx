@@ -0,0 +1,133 @@
+import * as React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DashboardIcon } from "./DashboardIcon";
+import { AuditIcon, RefreshIcon } from "@hugeicons/core-free-icons";
+import { getTenantPrefix } from "@/lib/utils";
+import type { AuditEntry } from "@/types";
+
+const PAGE_SIZE = 50;
+
+function formatDetails(details: AuditEntry["details"]): string {
+  if (!details) return "";
+  return Object.entries(details)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}: ${typeof value === "object" ? JSON.stringify(value) : value}`)
+    .join(", ");
+}
+
+/** Recent audit log entries; only rendered for admins */
+export function AuditLogCard() {
+  const [entries, setEntries] = React.useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async (cursor: string | null) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) params.set("cursor", cursor);
+      const response = await fetch(`${getTenantPrefix()}/api/audit?${params}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const page = (await response.json()) as { entries: AuditEntry[]; nextCursor: string | null };
+      setEntries((prev) => (cursor ? [...prev, ...page.entries] : page.entries));
+      setNextCursor(page.nextCursor);
+    } catch {
+      setError("The audit log could not be loaded.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    load(null);
+  }, [load]);
+
+  return (
+    <Card className="border-border/70 bg-card/90 shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-xl font-semibold">
+            <DashboardIcon icon={AuditIcon} size={18} />
+            Audit Log
+          </CardTitle>
+          <CardDescription className="text-sm md:text-base">
+            Who viewed, exported or erased data and who changed tokens or settings.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => load(null)} disabled={loading}>
+          <DashboardIcon icon={RefreshIcon} size={14} className="mr-2" />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {error && <p className="pb-3 text-sm text-destructive">{error}</p>}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>Actor</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.length === 0 && !loading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No entries yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap font-mono text-sm">
+                    {new Date(entry.time).toLocaleString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                      second: "2-digit",
+                    })}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span>{entry.actor ?? "—"}</span>
+                      <Badge variant="secondary" className="dashboard-badge text-xs">
+                        {entry.role}
+                      </Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{entry.action}</TableCell>
+                  <TableCell className="font-mono text-sm">{entry.target ?? "—"}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {formatDetails(entry.details)}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        {nextCursor && (
+          <div className="flex justify-center pt-4">
+            <Button variant="outline" size="sm" onClick={() => load(nextCursor)} disabled={loading}>
+              Load more
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import { DashboardIcon } from "./DashboardIcon";
+import { UserAccountIcon } from "@hugeicons/core-free-icons";
+import type { CurrentUser } from "@/types";
+
+interface CurrentUserBadgeProps {
+  user: CurrentUser | null;
+}
+
+const ROLE_LABELS: Record<CurrentUser["role"], string> = {
+  viewer: "Viewer",
+  operator: "Operator",
+  admin: "Admin",
+};
+
+export function CurrentUserBadge({ user }: CurrentUserBadgeProps) {
+  // Without Cloudflare Access there is nobody to show
+  if (!user?.email) return null;
+
+  return (
+    <div
+      className="hidden items-center gap-2 rounded-full border border-border bg-card/80 px-3 py-1.5 md:inline-flex"
+      title={user.email}
+    >
+      <DashboardIcon icon={UserAccountIcon} size={15} className="text-muted-foreground" />
+      <span className="max-w-[220px] truncate text-sm font-medium text-muted-foreground">
+        {user.email}
+      </span>
+      <span className="text-sm font-semibold">{ROLE_LABELS[user.role]}</span>
+    </div>
+  );
+}
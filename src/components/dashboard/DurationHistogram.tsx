@@ -0,0 +1,83 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import type { DurationBin } from "@/types";
+
+interface DurationHistogramProps {
+  /** Server-side histogram over the whole retention window, from /api/stats */
+  bins: DurationBin[];
+  /** Percentiles (seconds) of the same durations */
+  p50Duration: number;
+  p90Duration: number;
+  embedded?: boolean;
+}
+
+const BAR_COLOR = "var(--chart-2)";
+const PERCENTILE_COLOR = "var(--chart-5)";
+
+export function DurationHistogram({
+  bins,
+  p50Duration,
+  p90Duration,
+  embedded = false,
+}: DurationHistogramProps) {
+  if (!bins.some((bin) => bin.count > 0)) {
+    return (
+      <div className="flex h-[280px] items-center justify-center rounded-lg border border-dashed border-border/70 bg-muted/30 text-muted-foreground">
+        No finished enrollments yet
+      </div>
+    );
+  }
+
+  // Trim empty bins at the long end so the chart isn't mostly blank
+  const lastUsed = bins.reduce((last, bin, i) => (bin.count > 0 ? i : last), 0);
+  const chartData = bins.slice(0, lastUsed + 1);
+
+  const binLabelFor = (seconds: number) =>
+    chartData.find((b) => seconds >= b.min && (b.max === null || seconds < b.max))?.label;
+
+  const chart = (
+    <ResponsiveContainer width="100%" height={280}>
+      <BarChart data={chartData}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+        <XAxis dataKey="label" tick={{ fontSize: 12 }} className="text-muted-foreground" />
+        <YAxis tick={{ fontSize: 12 }} allowDecimals={false} />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: "var(--card)",
+            border: "1px solid var(--border)",
+            borderRadius: "var(--radius)",
+          }}
+        />
+        <Bar dataKey="count" name="Enrollments" fill={BAR_COLOR} />
+        {[
+          { name: "p50", seconds: p50Duration },
+          { name: "p90", seconds: p90Duration },
+        ].map(({ name, seconds }) => (
+          <ReferenceLine
+            key={name}
+            x={binLabelFor(seconds)}
+            stroke={PERCENTILE_COLOR}
+            strokeDasharray="4 4"
+            label={{ value: name, position: "top", fontSize: 12 }}
+          />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+
+  if (embedded) {
+    return chart;
+  }
+
+  return (
+    <div>{chart}</div>
+  );
+}
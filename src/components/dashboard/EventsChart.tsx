@@ -8,10 +8,10 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
-import type { StoredEvent } from "@/types";
+import type { SetupManagerWebhook, StoredEvent } from "@/types";
 
 interface EventsChartProps {
-  events: StoredEvent[];
+  events: StoredEvent<SetupManagerWebhook>[];
   embedded?: boolean;
 }
 
@@ -82,7 +82,7 @@ export function EventsChart({ events, embedded = false }: EventsChartProps) {
   );
 }
 
-function createTimeBuckets(events: StoredEvent[]) {
+function createTimeBuckets(events: StoredEvent<SetupManagerWebhook>[]) {
   if (events.length === 0) return [];
 
   const eventTimes = events
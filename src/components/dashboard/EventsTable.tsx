@@ -15,7 +15,9 @@ import {
   ArrowUp01Icon,
   ArrowRight01Icon,
 } from "@hugeicons/core-free-icons";
-import type { StoredEvent, WebhookPayload } from "@/types";
+import { GENERIC_WEBHOOK_SCHEMA, getUnknownFields, isKnownEventType } from "@/schema";
+import { correlateSessions } from "@/sessions";
+import { isKnownEvent, type SessionState, type StoredEvent, type WebhookPayload } from "@/types";
 
 type ThroughputQuality = "good" | "ok" | "slow";
 
@@ -72,39 +74,245 @@ function NetworkIndicator({ download, upload }: { download?: number; upload?: nu
   );
 }
 
+function formatTime(timestamp: string | number) {
+  return new Date(timestamp).toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+/** Fields validated for every Setup Manager event, including unknown types */
+const SHARED_FIELDS = Object.keys(GENERIC_WEBHOOK_SCHEMA.properties);
+
+/**
+ * Flat payload for display. Events of unknown types only contribute the
+ * shared fields; the rest of their payload appears under "Additional Fields".
+ */
+function toDisplayPayload(payload: StoredEvent["payload"]): Partial<WebhookPayload> {
+  if (isKnownEventType(payload.event)) return payload as WebhookPayload;
+  return Object.fromEntries(
+    Object.entries(payload).filter(([key]) => SHARED_FIELDS.includes(key))
+  );
+}
+
+function formatFieldValue(value: unknown) {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function formatDuration(seconds?: number) {
+  if (!seconds) return "—";
+  if (seconds < 60) return `${seconds}s`;
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}m ${secs}s`;
+}
+
+const SESSION_STATE_BADGES: Record<
+  SessionState,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  "in-progress": { label: "In progress", variant: "default" },
+  finished: { label: "Finished", variant: "secondary" },
+  "finished-with-failures": { label: "Failed actions", variant: "destructive" },
+  abandoned: { label: "Abandoned", variant: "outline" },
+  stalled: { label: "Stalled", variant: "destructive" },
+};
+
+type TableView = "events" | "sessions";
+
 interface EventsTableProps {
   events: StoredEvent[];
+  stalledSessionIds?: ReadonlySet<string>;
   maxVisible?: number;
 }
 
-export function EventsTable({ events, maxVisible = 50 }: EventsTableProps) {
+export function EventsTable({ events, stalledSessionIds, maxVisible = 50 }: EventsTableProps) {
+  const [view, setView] = React.useState<TableView>("events");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button
+          variant={view === "events" ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => setView("events")}
+        >
+          Events
+        </Button>
+        <Button
+          variant={view === "sessions" ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => setView("sessions")}
+        >
+          Sessions
+        </Button>
+      </div>
+      {view === "events" ? (
+        <EventRows events={events} maxVisible={maxVisible} />
+      ) : (
+        <SessionRows
+          events={events}
+          stalledSessionIds={stalledSessionIds}
+          maxVisible={maxVisible}
+        />
+      )}
+    </div>
+  );
+}
+
+function useExpandedRows() {
   const [expandedRows, setExpandedRows] = React.useState<Set<string>>(new Set());
-  const visibleEvents = events.slice(0, maxVisible);
 
-  const toggleRow = (eventId: string) => {
+  const toggleRow = (id: string) => {
     setExpandedRows((prev) => {
       const next = new Set(prev);
-      if (next.has(eventId)) next.delete(eventId);
-      else next.add(eventId);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
       return next;
     });
   };
 
-  const formatTime = (timestamp: string | number) => {
-    return new Date(timestamp).toLocaleTimeString("en-US", {
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit",
-    });
-  };
+  return { expandedRows, toggleRow };
+}
 
-  const formatDuration = (seconds?: number) => {
-    if (!seconds) return "—";
-    if (seconds < 60) return `${seconds}s`;
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}m ${secs}s`;
-  };
+function ExpandButton({ expanded, onClick }: { expanded: boolean; onClick: () => void }) {
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 w-6 p-0"
+      onClick={onClick}
+    >
+      {expanded ? (
+        <DashboardIcon icon={ArrowDown01Icon} size={16} />
+      ) : (
+        <DashboardIcon icon={ArrowRight01Icon} size={16} />
+      )}
+    </Button>
+  );
+}
+
+function ActionsSummary({ payload }: { payload: Partial<WebhookPayload> }) {
+  const actions = payload.enrollmentActions || [];
+  const failedCount = actions.filter((a) => a.status === "failed").length;
+
+  if (actions.length === 0) return <>—</>;
+
+  return (
+    <span className="text-base">
+      {actions.length - failedCount}/{actions.length}
+      {failedCount > 0 && (
+        <span className="text-destructive ml-1">
+          ({failedCount} failed)
+        </span>
+      )}
+    </span>
+  );
+}
+
+interface SessionRowsProps {
+  events: StoredEvent[];
+  stalledSessionIds?: ReadonlySet<string>;
+  maxVisible: number;
+}
+
+function SessionRows({ events, stalledSessionIds, maxVisible }: SessionRowsProps) {
+  const { expandedRows, toggleRow } = useExpandedRows();
+  const sessions = React.useMemo(
+    () => correlateSessions(events, stalledSessionIds),
+    [events, stalledSessionIds]
+  );
+  const visibleSessions = sessions.slice(0, maxVisible);
+
+  return (
+    <div className="rounded-md border dashboard-table text-base">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[40px]"></TableHead>
+            <TableHead>State</TableHead>
+            <TableHead>Started</TableHead>
+            <TableHead>Finished</TableHead>
+            <TableHead>Duration</TableHead>
+            <TableHead>Network</TableHead>
+            <TableHead>Serial</TableHead>
+            <TableHead>Model</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visibleSessions.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                No enrollment sessions yet. Waiting for webhook data...
+              </TableCell>
+            </TableRow>
+          ) : (
+            visibleSessions.map((session) => {
+              // Prefer the Finished payload: it is a superset of the Started one
+              const latest = (session.finishedEvent ?? session.startedEvent)!;
+              const payload = latest.payload as WebhookPayload;
+              const isExpanded = expandedRows.has(session.sessionId);
+              const badge = SESSION_STATE_BADGES[session.state];
+
+              return (
+                <React.Fragment key={session.sessionId}>
+                  <TableRow className="hover:bg-muted/50">
+                    <TableCell>
+                      <ExpandButton
+                        expanded={isExpanded}
+                        onClick={() => toggleRow(session.sessionId)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={badge.variant} className="dashboard-badge text-base">
+                        {badge.label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-base">
+                      {formatTime(session.started)}
+                    </TableCell>
+                    <TableCell className="font-mono text-base">
+                      {payload.finished ? formatTime(payload.finished) : "—"}
+                    </TableCell>
+                    <TableCell className="font-mono text-base">
+                      {formatDuration(payload.duration)}
+                    </TableCell>
+                    <TableCell>
+                      <NetworkIndicator
+                        download={payload.downloadThroughput}
+                        upload={payload.uploadThroughput}
+                      />
+                    </TableCell>
+                    <TableCell className="font-mono text-base">
+                      {session.serialNumber}
+                    </TableCell>
+                    <TableCell>{payload.modelName}</TableCell>
+                    <TableCell>
+                      <ActionsSummary payload={payload} />
+                    </TableCell>
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow className="bg-muted/30">
+                      <TableCell colSpan={9} className="p-6">
+                        <EventDetail payload={latest.payload} site={latest.site} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function EventRows({ events, maxVisible }: { events: StoredEvent[]; maxVisible: number }) {
+  const { expandedRows, toggleRow } = useExpandedRows();
+  const visibleEvents = events.slice(0, maxVisible);
 
   return (
     <div className="rounded-md border dashboard-table text-base">
@@ -131,39 +339,31 @@ export function EventsTable({ events, maxVisible = 50 }: EventsTableProps) {
             </TableRow>
           ) : (
             visibleEvents.map((event) => {
-              const payload = event.payload as WebhookPayload;
+              const known = isKnownEvent(event);
+              const payload = toDisplayPayload(event.payload);
               const isExpanded = expandedRows.has(event.eventId);
               const isStarted = payload.event === "com.jamf.setupmanager.started";
-              const actions = payload.enrollmentActions || [];
-              const failedCount = actions.filter((a) => a.status === "failed").length;
 
               return (
                 <React.Fragment key={event.eventId}>
                   <TableRow className="hover:bg-muted/50">
                     <TableCell>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="h-6 w-6 p-0"
+                      <ExpandButton
+                        expanded={isExpanded}
                         onClick={() => toggleRow(event.eventId)}
-                      >
-                        {isExpanded ? (
-                          <DashboardIcon icon={ArrowDown01Icon} size={16} />
-                        ) : (
-                          <DashboardIcon icon={ArrowRight01Icon} size={16} />
-                        )}
-                      </Button>
+                      />
                     </TableCell>
                     <TableCell>
                       <Badge
-                        variant={isStarted ? "default" : "secondary"}
+                        variant={!known ? "outline" : isStarted ? "default" : "secondary"}
                         className="dashboard-badge text-base"
+                        title={event.payload.event}
                       >
-                        {payload.name}
+                        {event.payload.name || event.payload.event.split(".").pop()}
                       </Badge>
                     </TableCell>
                     <TableCell className="font-mono text-base">
-                      {formatTime(payload.started)}
+                      {payload.started ? formatTime(payload.started) : "—"}
                     </TableCell>
                     <TableCell className="font-mono text-base">
                       {payload.finished ? formatTime(payload.finished) : "—"}
@@ -182,24 +382,13 @@ export function EventsTable({ events, maxVisible = 50 }: EventsTableProps) {
                     </TableCell>
                     <TableCell>{payload.modelName}</TableCell>
                     <TableCell>
-                      {actions.length > 0 ? (
-                        <span className="text-base">
-                          {actions.length - failedCount}/{actions.length}
-                          {failedCount > 0 && (
-                            <span className="text-destructive ml-1">
-                              ({failedCount} failed)
-                            </span>
-                          )}
-                        </span>
-                      ) : (
-                        "—"
-                      )}
+                      <ActionsSummary payload={payload} />
                     </TableCell>
                   </TableRow>
                   {isExpanded && (
                     <TableRow className="bg-muted/30">
                       <TableCell colSpan={9} className="p-6">
-                        <EventDetail payload={payload} />
+                        <EventDetail payload={event.payload} site={event.site} />
                       </TableCell>
                     </TableRow>
                   )}
@@ -248,28 +437,46 @@ function NetworkInfo({ upload, download }: { upload?: number; download?: number
   );
 }
 
-function EventDetail({ payload }: { payload: WebhookPayload }) {
+function EventDetail({
+  payload: rawPayload,
+  site,
+}: {
+  payload: StoredEvent["payload"];
+  site?: string;
+}) {
+  const payload = toDisplayPayload(rawPayload);
+  const additionalFields = getUnknownFields(rawPayload);
+
   return (
     <div className="text-base">
       <NetworkInfo upload={payload.uploadThroughput} download={payload.downloadThroughput} />
       <div className="grid grid-cols-2 gap-5 text-base md:grid-cols-4">
         <div>
           <p className="text-lg text-muted-foreground">macOS Version</p>
-          <p className="text-[1.65rem] font-semibold leading-tight">{payload.macOSVersion}</p>
+          <p className="text-[1.65rem] font-semibold leading-tight">{payload.macOSVersion ?? "—"}</p>
         </div>
         <div>
           <p className="text-lg text-muted-foreground">macOS Build</p>
-          <p className="text-[1.65rem] font-semibold leading-tight">{payload.macOSBuild}</p>
+          <p className="text-[1.65rem] font-semibold leading-tight">{payload.macOSBuild ?? "—"}</p>
         </div>
         <div>
           <p className="text-lg text-muted-foreground">Model ID</p>
-          <p className="text-[1.65rem] font-semibold leading-tight">{payload.modelIdentifier}</p>
+          <p className="text-[1.65rem] font-semibold leading-tight">{payload.modelIdentifier ?? "—"}</p>
         </div>
         <div>
           <p className="text-lg text-muted-foreground">Setup Manager</p>
-          <p className="text-[1.65rem] font-semibold leading-tight">v{payload.setupManagerVersion}</p>
+          <p className="text-[1.65rem] font-semibold leading-tight">
+            {payload.setupManagerVersion ? `v${payload.setupManagerVersion}` : "—"}
+          </p>
         </div>
 
+        {site && (
+          <div>
+            <p className="text-lg text-muted-foreground">Site</p>
+            <p className="text-[1.65rem] font-semibold leading-tight">{site}</p>
+          </div>
+        )}
+
         {payload.computerName && (
           <div>
             <p className="text-lg text-muted-foreground">Computer Name</p>
@@ -310,6 +517,20 @@ function EventDetail({ payload }: { payload: WebhookPayload }) {
             </div>
           </div>
         )}
+
+        {additionalFields.length > 0 && (
+          <div className="col-span-full">
+            <p className="mb-3 text-lg text-muted-foreground">Additional Fields</p>
+            <dl className="grid gap-x-6 gap-y-2 md:grid-cols-[max-content_1fr]">
+              {additionalFields.map(([field, value]) => (
+                <React.Fragment key={field}>
+                  <dt className="font-mono text-muted-foreground">{field}</dt>
+                  <dd className="font-mono break-all">{formatFieldValue(value)}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </div>
+        )}
       </div>
     </div>
   );
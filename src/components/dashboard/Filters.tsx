@@ -14,6 +14,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
+import { getTenantPrefix } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import {
   Tooltip,
@@ -23,15 +24,39 @@ import {
 } from "@/components/ui/tooltip";
 import { DashboardIcon } from "./DashboardIcon";
 import { Download01Icon, FilterIcon, Search01Icon } from "@hugeicons/core-free-icons";
-import type { FilterState, StoredEvent, WebhookPayload } from "@/types";
+import type {
+  BuildType,
+  FilterState,
+  SetupManagerWebhook,
+  StoredEvent,
+  WebhookPayload,
+} from "@/types";
+
+/** Enrichment fields offered as filters, with the label of their "all" option */
+const ENRICHMENT_FILTERS = [
+  { field: "chipFamily", label: "All chips" },
+  { field: "modelYear", label: "All model years" },
+  { field: "macOSName", label: "All macOS releases" },
+  { field: "buildType", label: "All build types" },
+] as const;
+
+type EnrichmentFilter = (typeof ENRICHMENT_FILTERS)[number]["field"];
+
+const BUILD_TYPE_LABELS: Record<BuildType, string> = {
+  release: "Release",
+  beta: "Beta",
+  rsr: "Rapid Security Response",
+};
 
 interface FiltersProps {
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
-  events: StoredEvent[];
+  events: StoredEvent<SetupManagerWebhook>[];
+  /** Whether the export menu is shown */
+  canExport: boolean;
 }
 
-export function Filters({ filters, onFiltersChange, events }: FiltersProps) {
+export function Filters({ filters, onFiltersChange, events, canExport }: FiltersProps) {
   const macOSVersions = React.useMemo(() => {
     const versions = new Set(events.map((e) => e.payload.macOSVersion));
     return Array.from(versions).sort().reverse();
@@ -42,7 +67,36 @@ export function Filters({ filters, onFiltersChange, events }: FiltersProps) {
     return Array.from(modelSet).sort();
   }, [events]);
 
-  const handleExport = (format: "csv" | "json") => {
+  const enrichmentOptions = React.useMemo(() => {
+    const options = {} as Record<EnrichmentFilter, string[]>;
+    for (const { field } of ENRICHMENT_FILTERS) {
+      const values = new Set<string>();
+      for (const e of events) {
+        const value = e.enrichment[field];
+        if (value !== null) values.add(String(value));
+      }
+      options[field] = Array.from(values).sort();
+    }
+    return options;
+  }, [events]);
+
+  const [exportError, setExportError] = React.useState<string | null>(null);
+
+  const handleExport = async (format: "csv" | "json") => {
+    // Exports are recorded in the audit log; nothing is downloaded if that fails
+    setExportError(null);
+    try {
+      const response = await fetch(`${getTenantPrefix()}/api/audit/exports`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, events: events.length }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch {
+      setExportError("The export could not be recorded in the audit log. Please try again.");
+      return;
+    }
+
     const data = events.map((e) => e.payload);
     if (format === "json") {
       const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
@@ -171,6 +225,28 @@ export function Filters({ filters, onFiltersChange, events }: FiltersProps) {
               ))}
             </SelectContent>
           </Select>
+
+          {ENRICHMENT_FILTERS.map(({ field, label }) => (
+            <Select
+              key={field}
+              value={filters[field] || "all"}
+              onValueChange={(value) =>
+                onFiltersChange({ ...filters, [field]: value === "all" ? "" : value })
+              }
+            >
+              <SelectTrigger className="h-11 w-full text-sm md:text-base">
+                <SelectValue placeholder={label} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{label}</SelectItem>
+                {enrichmentOptions[field].map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {field === "buildType" ? BUILD_TYPE_LABELS[value as BuildType] : value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
         </div>
 
         <div className="flex items-center justify-between gap-3 lg:justify-end">
@@ -181,28 +257,35 @@ export function Filters({ filters, onFiltersChange, events }: FiltersProps) {
             </Badge>
           </div>
 
-          <DropdownMenu>
-            <Tooltip>
-              <DropdownMenuTrigger asChild>
-                <TooltipTrigger asChild>
-                  <Button variant="outline" className="h-11 min-w-[128px] text-sm md:text-base">
-                    <DashboardIcon icon={Download01Icon} size={16} className="mr-2" />
-                    Export
-                  </Button>
-                </TooltipTrigger>
-              </DropdownMenuTrigger>
-              <TooltipContent>Download visible data as CSV or JSON</TooltipContent>
-            </Tooltip>
-            <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={() => handleExport("csv")}>
-                Export as CSV
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => handleExport("json")}>
-                Export as JSON
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+          {canExport && (
+            <DropdownMenu>
+              <Tooltip>
+                <DropdownMenuTrigger asChild>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" className="h-11 min-w-[128px] text-sm md:text-base">
+                      <DashboardIcon icon={Download01Icon} size={16} className="mr-2" />
+                      Export
+                    </Button>
+                  </TooltipTrigger>
+                </DropdownMenuTrigger>
+                <TooltipContent>Download visible data as CSV or JSON</TooltipContent>
+              </Tooltip>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport("csv")}>
+                  Export as CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("json")}>
+                  Export as JSON
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
+        {exportError && (
+          <p role="alert" className="text-sm text-destructive lg:col-span-2 lg:text-right">
+            {exportError}
+          </p>
+        )}
       </div>
     </TooltipProvider>
   );
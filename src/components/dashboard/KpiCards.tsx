@@ -11,11 +11,20 @@ import type { IconSvgElement } from "@hugeicons/react";
 interface KpiCardsProps {
   started: number;
   finished: number;
-  avgDuration: number;
+  p50Duration: number;
+  p90Duration: number;
+  p99Duration: number;
   failedActions: number;
 }
 
-export function KpiCards({ started, finished, avgDuration, failedActions }: KpiCardsProps) {
+export function KpiCards({
+  started,
+  finished,
+  p50Duration,
+  p90Duration,
+  p99Duration,
+  failedActions,
+}: KpiCardsProps) {
   const formatDuration = (seconds: number) => {
     if (seconds < 60) return `${seconds}s`;
     const mins = Math.floor(seconds / 60);
@@ -45,10 +54,10 @@ export function KpiCards({ started, finished, avgDuration, failedActions }: KpiC
       color: "text-green-500",
     },
     {
-      title: "Avg Duration",
-      value: formatDuration(avgDuration),
+      title: "Median Duration",
+      value: formatDuration(p50Duration),
       icon: Clock01Icon,
-      description: "Average setup time",
+      description: `p90 ${formatDuration(p90Duration)} · p99 ${formatDuration(p99Duration)}`,
       color: "text-primary",
     },
     {
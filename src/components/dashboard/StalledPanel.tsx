@@ -0,0 +1,65 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { DashboardIcon } from "./DashboardIcon";
+import { HourglassIcon } from "@hugeicons/core-free-icons";
+import type { TrackedSession } from "@/types";
+
+interface StalledPanelProps {
+  sessions: TrackedSession[];
+}
+
+function formatElapsed(since: number) {
+  const minutes = Math.max(Math.floor((Date.now() - since) / 60000), 0);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
+
+export function StalledPanel({ sessions }: StalledPanelProps) {
+  if (sessions.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/50 bg-card/90 shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-xl font-semibold">Stalled Enrollments</CardTitle>
+          <CardDescription className="text-sm md:text-base">
+            Devices that started Setup Manager but have not finished within the expected time.
+          </CardDescription>
+        </div>
+        <div className="flex h-9 w-9 items-center justify-center rounded-full bg-muted/70">
+          <DashboardIcon icon={HourglassIcon} size={18} className="text-destructive" />
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0">
+        <ul className="divide-y divide-border">
+          {sessions.map((session) => (
+            <li
+              key={session.sessionId}
+              className="flex flex-wrap items-center justify-between gap-3 py-3 text-base"
+            >
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="font-mono font-semibold">{session.serialNumber}</span>
+                <span>{session.modelName}</span>
+                <span className="text-muted-foreground">macOS {session.macOSVersion}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-mono text-muted-foreground">
+                  started {new Date(session.started).toLocaleString("en-US", {
+                    month: "short",
+                    day: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </span>
+                <Badge variant="destructive" className="dashboard-badge text-sm">
+                  running {formatElapsed(new Date(session.started).getTime())}
+                </Badge>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * Enrollment duration distribution helpers
+ * Used by /api/stats and the stats pushed to dashboards, so the histogram
+ * and the percentiles always describe the same durations.
+ */
+
+import type { DurationBin } from "./types";
+
+/** Histogram bin edges in seconds; the last bin is open-ended */
+const DURATION_BIN_EDGES = [0, 60, 120, 300, 600, 900, 1200, 1800, 2700, 3600, 7200];
+
+function formatEdge(seconds: number): string {
+  if (seconds < 3600) return `${seconds / 60}m`;
+  return `${seconds / 3600}h`;
+}
+
+/**
+ * Nearest-rank percentile of an ascending list of durations.
+ * Returns 0 for an empty list.
+ */
+export function percentile(sorted: readonly number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/** Count durations (seconds) into the fixed histogram bins */
+export function buildDurationHistogram(durations: readonly number[]): DurationBin[] {
+  const bins: DurationBin[] = DURATION_BIN_EDGES.map((min, i) => {
+    const max = i + 1 < DURATION_BIN_EDGES.length ? DURATION_BIN_EDGES[i + 1] : null;
+    return {
+      label: max === null ? `${formatEdge(min)}+` : `${formatEdge(min)}–${formatEdge(max)}`,
+      min,
+      max,
+      count: 0,
+    };
+  });
+
+  for (const duration of durations) {
+    const bin = bins.find((b) => duration >= b.min && (b.max === null || duration < b.max));
+    if (bin) bin.count++;
+  }
+
+  return bins;
+}
@@ -0,0 +1,83 @@
+/**
+ * Hardware and OS enrichment
+ *
+ * Setup Manager only reports the raw model identifier (e.g. "Mac15,7") and
+ * macOS build. At ingest, the Worker derives the chip family, model year,
+ * macOS marketing name and build type from the bundled lookup table in
+ * data/enrichment.json. When Apple ships new hardware or a new macOS
+ * release, add it there; events stored before then keep working and fall
+ * back to the generic values below.
+ */
+
+import lookup from "./data/enrichment.json";
+import type { BuildType, DeviceEnrichment } from "./types";
+
+interface ModelInfo {
+  chip: string;
+  year: number;
+}
+
+const MODELS: Readonly<Record<string, ModelInfo>> = lookup.models;
+const MACOS_NAMES: Readonly<Record<string, string>> = lookup.macOSNames;
+
+/** Apple silicon Macs use identifiers like "Mac15,7" */
+const APPLE_SILICON_IDENTIFIER = /^Mac\d+,\d+$/;
+
+/** Product-line identifiers ("MacBookPro16,1") not in the table are Intel Macs */
+const INTEL_IDENTIFIER = /^(MacBook|MacBookAir|MacBookPro|iMac|iMacPro|Macmini|MacPro|Xserve)\d+,\d+$/;
+
+/** Rapid Security Responses carry a letter in parentheses, e.g. "13.3.1 (a)" */
+const RSR_VERSION = /\([a-z]\)\s*$/;
+
+/** RSR builds append a long numeric suffix and a letter, e.g. "22E772610a" */
+const RSR_BUILD = /^\d+[A-Z]\d{6,}[a-z]$/;
+
+/** Beta builds end in a lowercase letter, e.g. "24A5264n" */
+const BETA_BUILD = /^\d+[A-Z]\d+[a-z]$/;
+
+export function getChipFamily(modelIdentifier: string): string | null {
+  const known = Object.hasOwn(MODELS, modelIdentifier) ? MODELS[modelIdentifier] : undefined;
+  if (known) return known.chip;
+  if (APPLE_SILICON_IDENTIFIER.test(modelIdentifier)) return "Apple silicon";
+  if (INTEL_IDENTIFIER.test(modelIdentifier)) return "Intel";
+  return null;
+}
+
+export function getModelYear(modelIdentifier: string): number | null {
+  return Object.hasOwn(MODELS, modelIdentifier) ? MODELS[modelIdentifier].year : null;
+}
+
+/** Marketing name of a macOS version, e.g. "Sequoia" for "15.2" */
+export function getMacOSName(macOSVersion: string): string | null {
+  const [major, minor] = macOSVersion.trim().split(".");
+  // Before Big Sur, the minor version identifies the release
+  const key = major === "10" ? `${major}.${minor}` : major;
+  return Object.hasOwn(MACOS_NAMES, key) ? MACOS_NAMES[key] : null;
+}
+
+export function getBuildType(macOSBuild: string, macOSVersion = ""): BuildType {
+  if (RSR_VERSION.test(macOSVersion) || RSR_BUILD.test(macOSBuild)) return "rsr";
+  if (BETA_BUILD.test(macOSBuild)) return "beta";
+  return "release";
+}
+
+/**
+ * Enrichment for a payload. Fields are null when the payload lacks the
+ * source field (generic events) or the table doesn't know the value.
+ */
+export function enrichPayload(payload: {
+  modelIdentifier?: unknown;
+  macOSVersion?: unknown;
+  macOSBuild?: unknown;
+}): DeviceEnrichment {
+  const modelIdentifier = typeof payload.modelIdentifier === "string" ? payload.modelIdentifier : "";
+  const macOSVersion = typeof payload.macOSVersion === "string" ? payload.macOSVersion : "";
+  const macOSBuild = typeof payload.macOSBuild === "string" ? payload.macOSBuild : "";
+
+  return {
+    chipFamily: modelIdentifier ? getChipFamily(modelIdentifier) : null,
+    modelYear: modelIdentifier ? getModelYear(modelIdentifier) : null,
+    macOSName: macOSVersion ? getMacOSName(macOSVersion) : null,
+    buildType: macOSBuild ? getBuildType(macOSBuild, macOSVersion) : null,
+  };
+}
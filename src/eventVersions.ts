@@ -0,0 +1,66 @@
+/**
+ * Versioned stored event format
+ *
+ * Every stored event records the `schemaVersion` of the format it was
+ * written in, and each version has its own record type below. To change the
+ * shape of StoredEvent, bump CURRENT_EVENT_SCHEMA_VERSION, add a record type
+ * for the new version and a typed migration from the previous one, and chain
+ * it in migrateStoredEvent. Older records are upgraded whenever they are
+ * read, and the dashboard room's alarm rewrites them in place in the
+ * background, so history survives format changes without a wipe.
+ */
+
+import { enrichPayload } from "./enrichment";
+import type { DeviceEnrichment, GenericWebhook, SetupManagerWebhook, StoredEvent } from "./types";
+
+/** Version of the StoredEvent format written by this release */
+export const CURRENT_EVENT_SCHEMA_VERSION = 2;
+
+/** Records written before versioning was introduced are version 1 */
+const UNVERSIONED_EVENT_SCHEMA_VERSION = 1;
+
+/** Fields every version of the stored record has */
+interface StoredEventRecordBase {
+  eventId: string;
+  timestamp: number;
+  payload: SetupManagerWebhook | GenericWebhook;
+  site?: string;
+}
+
+/** Version 1: the payload as received; unversioned records are version 1 too */
+export interface StoredEventRecordV1 extends StoredEventRecordBase {
+  schemaVersion?: 1;
+  enrichment?: undefined;
+}
+
+/** Version 2 adds hardware and OS enrichment */
+export interface StoredEventRecordV2 extends StoredEventRecordBase {
+  schemaVersion: 2;
+  enrichment: DeviceEnrichment;
+}
+
+/** A stored event record of any version, as read from storage */
+export type StoredEventRecord = StoredEventRecordV1 | StoredEventRecordV2;
+
+function migrateV1(record: StoredEventRecordV1): StoredEventRecordV2 {
+  return { ...record, schemaVersion: 2, enrichment: enrichPayload(record.payload) };
+}
+
+export function isOutdatedEventVersion(version: number | undefined): boolean {
+  return (version ?? UNVERSIONED_EVENT_SCHEMA_VERSION) < CURRENT_EVENT_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a stored record to the current format by applying each migration
+ * in turn. Records written by a newer release (e.g. after a rollback) are
+ * returned unchanged, as they cannot be downgraded.
+ */
+export function migrateStoredEvent(record: StoredEventRecord): StoredEvent {
+  switch (record.schemaVersion) {
+    case undefined:
+    case 1:
+      return migrateV1(record);
+    default:
+      return record;
+  }
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { getTenantPrefix } from "@/lib/utils";
+import type { CurrentUser } from "@/types";
+
+/** The signed-in user and their role; null until /api/me has answered */
+export function useCurrentUser(): CurrentUser | null {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`${getTenantPrefix()}/api/me`)
+      .then((response) => (response.ok ? (response.json() as Promise<CurrentUser>) : null))
+      .then((data) => {
+        if (!cancelled) setUser(data);
+      })
+      .catch(() => {
+        // Controls stay hidden; the dashboard itself still works
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return user;
+}
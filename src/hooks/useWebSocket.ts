@@ -1,17 +1,39 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import type { StoredEvent, Stats, WebhookPayload } from "@/types";
+import { getTenantPrefix } from "@/lib/utils";
+import type { Alert, StatsResponse, StoredEvent, TrackedSession } from "@/types";
 
 interface WebSocketState {
   connected: boolean;
   events: StoredEvent[];
-  stats: Stats;
+  stalledSessions: TrackedSession[];
+  /** Alerts that are currently raised */
+  alerts: Alert[];
+  stats: StatsResponse;
 }
 
 export function useWebSocket() {
   const [state, setState] = useState<WebSocketState>({
     connected: false,
     events: [],
-    stats: { total: 0, started: 0, finished: 0, avgDuration: 0, successRate: 100, failedActions: 0 },
+    stalledSessions: [],
+    alerts: [],
+    stats: {
+      total: 0,
+      started: 0,
+      finished: 0,
+      avgDuration: 0,
+      successRate: 100,
+      actionSuccessRate: 100,
+      failedActions: 0,
+      p50Duration: 0,
+      p90Duration: 0,
+      p99Duration: 0,
+      devices: 0,
+      lastEventTime: null,
+      from: null,
+      to: null,
+      durationHistogram: [],
+    },
   });
 
   const wsRef = useRef<WebSocket | null>(null);
@@ -20,7 +42,7 @@ export function useWebSocket() {
 
   const connect = useCallback(() => {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    const ws = new WebSocket(`${protocol}//${window.location.host}${getTenantPrefix()}/ws`);
     wsRef.current = ws;
 
     ws.onopen = () => {
@@ -56,6 +78,62 @@ export function useWebSocket() {
           });
           break;
 
+        // Fleet totals from the server's rollups, not just the loaded events
+        case "stats":
+          setState((prev) => ({ ...prev, stats: message.data }));
+          break;
+
+        case "stalled-sessions":
+          setState((prev) => ({ ...prev, stalledSessions: message.data }));
+          break;
+
+        case "session-stalled":
+          setState((prev) => ({
+            ...prev,
+            stalledSessions: [
+              ...prev.stalledSessions.filter((s) => s.sessionId !== message.data.sessionId),
+              message.data,
+            ],
+          }));
+          break;
+
+        case "session-resolved":
+          setState((prev) => ({
+            ...prev,
+            stalledSessions: prev.stalledSessions.filter(
+              (s) => s.sessionId !== message.data.sessionId
+            ),
+          }));
+          break;
+
+        // All data of a device was erased on request
+        case "device-erased":
+          setState((prev) => ({
+            ...prev,
+            events: prev.events.filter(
+              (e) => e.payload.serialNumber !== message.data.serialNumber
+            ),
+          }));
+          break;
+
+        case "alerts":
+          setState((prev) => ({ ...prev, alerts: message.data }));
+          break;
+
+        case "alert-raised":
+          setState((prev) => ({
+            ...prev,
+            alerts: [message.data, ...prev.alerts.filter((a) => a.id !== message.data.id)],
+          }));
+          break;
+
+        case "alert-resolved":
+          setState((prev) => ({
+            ...prev,
+            alerts: prev.alerts.filter((a) => a.id !== message.data.id),
+          }));
+          break;
+
         case "connected":
         case "pong":
           break;
@@ -93,50 +171,5 @@ export function useWebSocket() {
     };
   }, [connect]);
 
-  // Compute stats from events
-  useEffect(() => {
-    const started = state.events.filter(
-      (e) => e.payload.event === "com.jamf.setupmanager.started"
-    );
-    const finished = state.events.filter(
-      (e) => e.payload.event === "com.jamf.setupmanager.finished"
-    );
-
-    const durations = finished
-      .map((e) => (e.payload as WebhookPayload).duration)
-      .filter((d): d is number => typeof d === "number" && d > 0);
-
-    const avgDuration =
-      durations.length > 0
-        ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length)
-        : 0;
-
-    const failedActions = finished.reduce((count, e) => {
-      const actions = (e.payload as WebhookPayload).enrollmentActions || [];
-      return count + actions.filter((a) => a.status === "failed").length;
-    }, 0);
-
-    const totalActions = finished.reduce((count, e) => {
-      return count + ((e.payload as WebhookPayload).enrollmentActions?.length || 0);
-    }, 0);
-
-    const successRate =
-      totalActions > 0
-        ? Math.round(((totalActions - failedActions) / totalActions) * 100)
-        : 100;
-
-    setState((prev) => ({
-      ...prev,
-      stats: {
-        total: prev.events.length,
-        started: started.length,
-        finished: finished.length,
-        avgDuration,
-        successRate,
-        failedActions,
-      },
-    }));
-  }, [state.events]);
-
   return state;
 }
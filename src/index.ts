@@ -1,19 +1,106 @@
+import { AccessKeySet, verifyAccessJwt } from "./accessJwt";
+import { parseAlertRuleInput } from "./alerts";
 import { DashboardRoom } from "./DashboardRoom";
+import { enrichPayload } from "./enrichment";
+import { CURRENT_EVENT_SCHEMA_VERSION } from "./eventVersions";
+import { parseNotificationChannelInput } from "./notifications";
+import {
+  PII_ACCESS_HEADER,
+  getPiiPolicy,
+  isRedactedField,
+  needsServeRedaction,
+  redactPayload,
+  redactRawBody,
+  type PiiField,
+  type PiiPolicy,
+} from "./pii";
+import {
+  describeIdentity,
+  getIdentity,
+  getServiceTokenIdentity,
+  hasRole,
+  seesPersonalData,
+  type Identity,
+} from "./roles";
+import { getWebhookJsonSchema } from "./schema";
+import {
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  verifyWebhookSignature,
+} from "./signature";
+import {
+  DEFAULT_TENANT,
+  TENANT_HEADER,
+  canAccessTenant,
+  getTenants,
+  type AccessClaims,
+} from "./tenants";
+import {
+  generateServiceToken,
+  generateWebhookToken,
+  hashToken,
+  isServiceToken,
+} from "./tokens";
 import {
   validateWebhookPayload,
-  type SetupManagerWebhook,
+  type AuditAction,
+  type AuditEntry,
+  type CurrentUser,
+  type NotificationDeliveryStatus,
+  type RejectedPayload,
+  type Role,
+  type ServiceToken,
+  type ServiceTokenScope,
+  type SessionState,
   type StoredEvent,
+  type ValidationIssue,
+  type WebhookToken,
 } from "./types";
+import { checkWebhookSource } from "./webhookPolicy";
 
 export { DashboardRoom };
 
 interface Env {
-  WEBHOOKS: KVNamespace;
+  /** Legacy KV event store, imported into the dashboard room's SQLite storage */
+  WEBHOOKS?: KVNamespace;
   DASHBOARD_ROOM: DurableObjectNamespace;
   WEBHOOK_SECRET?: string;
+  /** When set, webhooks must carry a valid HMAC-SHA256 signature */
+  WEBHOOK_SIGNING_SECRET?: string;
+  /** Allowed clock skew for signed webhooks, in seconds (default 300) */
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS?: string;
+  /** Comma-separated IPv4/IPv6 ranges webhooks may come from */
+  WEBHOOK_ALLOWED_CIDRS?: string;
+  /** Comma-separated autonomous system numbers webhooks may come from */
+  WEBHOOK_ALLOWED_ASNS?: string;
+  /** "true" requires webhooks to present a verified mTLS client certificate */
+  WEBHOOK_REQUIRE_CLIENT_CERT?: string;
+  /** Regular expression the client certificate's subject DN must match */
+  WEBHOOK_CLIENT_CERT_SUBJECT?: string;
+  /** Regular expression the client certificate's issuer DN must match */
+  WEBHOOK_CLIENT_CERT_ISSUER?: string;
   ASSETS?: Fetcher;
   CF_ACCESS_AUD?: string;
   CF_ACCESS_TEAM_DOMAIN?: string;
+  /** Comma-separated tenant names in addition to the default "main" tenant */
+  TENANTS?: string;
+  /** JSON map of tenant name to the Access emails, domains and groups allowed to see it */
+  TENANT_ACCESS?: string;
+  STALL_TIMEOUT_MINUTES?: string;
+  STALL_TIMEOUT_BY_MODEL?: string;
+  /** Days raw events and quarantined payloads are kept (default 90) */
+  EVENT_RETENTION_DAYS?: string;
+  /** Days aggregated statistics are kept (default: forever) */
+  ROLLUP_RETENTION_DAYS?: string;
+  /** JSON array of the Access emails, domains and groups that are admins */
+  ADMIN_ACCESS?: string;
+  /** JSON array of the Access emails, domains and groups that are operators */
+  OPERATOR_ACCESS?: string;
+  /** JSON map of personal payload fields to "hash", "mask" or "drop" */
+  PII_POLICY?: string;
+  /** "serve" (default) redacts for non-admins when serving, "store" before storing */
+  PII_REDACTION?: string;
+  /** Key for hashed personal data */
+  PII_HASH_SECRET?: string;
 }
 
 const SECURITY_HEADERS: Record<string, string> = {
@@ -37,7 +124,7 @@ function getCorsHeaders(request: Request): Record<string, string> {
   if (origin === workerOrigin) {
     return {
       "Access-Control-Allow-Origin": origin,
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
       "Access-Control-Allow-Headers": "Content-Type",
       "Vary": "Origin",
     };
@@ -90,116 +177,114 @@ async function timingSafeEqual(a: string, b: string): Promise<boolean> {
   return diff === 0;
 }
 
+function getBearerToken(request: Request): string | null {
+  const authHeader = request.headers.get("Authorization");
+  return authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
+}
+
+/** The CF_Authorization cookie carries the same token as the Access header */
+function getAccessCookie(request: Request): string | null {
+  const cookies = request.headers.get("Cookie") ?? "";
+  const match = cookies.match(/(?:^|;\s*)CF_Authorization=([^;]+)/);
+  return match ? match[1] : null;
+}
+
+/** Access signing keys per team domain, cached for the lifetime of the isolate */
+const accessKeySets = new Map<string, AccessKeySet>();
+
+function getAccessKeySet(teamDomain: string): AccessKeySet {
+  let keys = accessKeySets.get(teamDomain);
+  if (!keys) {
+    keys = new AccessKeySet(`https://${teamDomain}/cdn-cgi/access/certs`);
+    accessKeySets.set(teamDomain, keys);
+  }
+  return keys;
+}
+
 /**
  * Cloudflare Access JWT validation
  * Verifies the CF-Access-Jwt-Assertion header against the configured
- * audience (aud) and team domain JWKs endpoint.
- * Returns null if valid, or a Response with an error if invalid.
+ * audience (aud) and the team domain's signing keys (see accessJwt.ts).
+ * Returns the identity and role of the token's user if valid (with no
+ * claims if Access is not configured), or a Response with an error if invalid.
  */
 async function validateAccessJwt(
   request: Request,
   env: Env,
-): Promise<Response | null> {
+): Promise<{ identity: Identity } | { denied: Response }> {
   const aud = env.CF_ACCESS_AUD;
   const teamDomain = env.CF_ACCESS_TEAM_DOMAIN;
 
   // If not configured, skip validation
-  if (!aud || !teamDomain) return null;
+  if (!aud || !teamDomain) return { identity: getIdentity(env, null) };
 
-  const jwt = request.headers.get("Cf-Access-Jwt-Assertion");
+  // Routes with an Access bypass policy (see service tokens) only get the cookie
+  const jwt = request.headers.get("Cf-Access-Jwt-Assertion") ?? getAccessCookie(request);
   if (!jwt) {
-    return new Response("Unauthorized: missing Access token", { status: 403 });
+    return { denied: new Response("Unauthorized: missing Access token", { status: 403 }) };
   }
 
   try {
-    // Decode header and payload without verification first
-    const parts = jwt.split(".");
-    if (parts.length !== 3) {
-      return new Response("Unauthorized: malformed token", { status: 403 });
-    }
-
-    const headerJson = JSON.parse(atob(parts[0].replace(/-/g, "+").replace(/_/g, "/")));
-    const payloadJson = JSON.parse(atob(parts[1].replace(/-/g, "+").replace(/_/g, "/")));
-
-    // Validate audience
-    if (
-      !payloadJson.aud ||
-      !Array.isArray(payloadJson.aud) ||
-      !payloadJson.aud.includes(aud)
-    ) {
-      return new Response("Unauthorized: invalid audience", { status: 403 });
-    }
-
-    // Validate expiration
-    const now = Math.floor(Date.now() / 1000);
-    if (payloadJson.exp && payloadJson.exp < now) {
-      return new Response("Unauthorized: token expired", { status: 403 });
-    }
-
-    // Validate issuer
-    const expectedIssuer = `https://${teamDomain}`;
-    if (payloadJson.iss !== expectedIssuer) {
-      return new Response("Unauthorized: invalid issuer", { status: 403 });
-    }
-
-    // Fetch JWKs and verify signature
-    const certsUrl = `https://${teamDomain}/cdn-cgi/access/certs`;
-    const certsResponse = await fetch(certsUrl);
-    if (!certsResponse.ok) {
-      console.error(`Failed to fetch Access certs: ${certsResponse.status}`);
-      return new Response("Internal error: unable to verify token", { status: 500 });
-    }
-
-    const certs = (await certsResponse.json()) as {
-      keys: JsonWebKey[];
-      public_certs: { kid: string; cert: string }[];
-    };
-
-    // Find the matching key
-    const kid = headerJson.kid;
-    const jwk = certs.keys.find((k: JsonWebKey & { kid?: string }) => k.kid === kid);
-    if (!jwk) {
-      return new Response("Unauthorized: no matching key", { status: 403 });
-    }
-
-    // Import the key and verify the signature
-    const key = await crypto.subtle.importKey(
-      "jwk",
-      jwk,
-      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
-      false,
-      ["verify"],
-    );
-
-    const signedContent = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
-    const signature = Uint8Array.from(
-      atob(parts[2].replace(/-/g, "+").replace(/_/g, "/")),
-      (c) => c.charCodeAt(0),
-    );
-
-    const valid = await crypto.subtle.verify(
-      "RSASSA-PKCS1-v1_5",
-      key,
-      signature,
-      signedContent,
-    );
-
-    if (!valid) {
-      return new Response("Unauthorized: invalid signature", { status: 403 });
+    const result = await verifyAccessJwt(jwt, {
+      audience: aud,
+      issuer: `https://${teamDomain}`,
+      keys: getAccessKeySet(teamDomain),
+    });
+    if (!result.valid) {
+      if (result.unavailable) {
+        return { denied: new Response("Internal error: unable to verify token", { status: 500 }) };
+      }
+      return { denied: new Response(`Unauthorized: ${result.error}`, { status: 403 }) };
     }
-
-    return null; // Valid
+    return { identity: getIdentity(env, result.claims) };
   } catch (err) {
     console.error("Access JWT validation error:", err);
-    return new Response("Unauthorized: token validation failed", { status: 403 });
+    return { denied: new Response("Unauthorized: token validation failed", { status: 403 }) };
   }
 }
 
 /** Maximum webhook payload size in bytes (8 KB) */
 const MAX_WEBHOOK_PAYLOAD_SIZE = 8192;
 
-// POST /webhook
-async function handleWebhook(request: Request, env: Env): Promise<Response> {
+/**
+ * Derive a deterministic event ID from the payload content.
+ * Setup Manager sends the same event, serial number, started and timestamp
+ * values when it retries a delivery, so retries map to the same ID.
+ */
+async function deriveEventId(payload: StoredEvent["payload"]): Promise<string> {
+  const idempotencyKey = [
+    payload.event,
+    payload.serialNumber,
+    payload.started ?? "",
+    payload.timestamp,
+  ].join("\n");
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(idempotencyKey),
+  );
+  const hash = Array.from(new Uint8Array(digest).slice(0, 12), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+  return `${payload.event}:${payload.serialNumber}:${hash}`;
+}
+
+/**
+ * Checks shared by /webhook and /webhook/validate: source policy, size,
+ * content type, bearer token and (if configured) signature. Returns the raw
+ * body and the site of the token used, or an error Response.
+ */
+async function receiveWebhook(
+  request: Request,
+  env: Env,
+  room: Room,
+): Promise<{ rawBody: string; site: string | null } | Response> {
+  // Optional: restrict source networks and require an mTLS client certificate
+  const source = checkWebhookSource(request, env);
+  if (!source.allowed) {
+    console.error(`Webhook source rejected: ${source.error}`);
+    return json({ error: "Forbidden" }, 403, request);
+  }
+
   // Reject oversized payloads before parsing
   const contentLength = parseInt(request.headers.get("Content-Length") || "0", 10);
   if (contentLength > MAX_WEBHOOK_PAYLOAD_SIZE) {
@@ -212,174 +297,749 @@ async function handleWebhook(request: Request, env: Env): Promise<Response> {
     return json({ error: "Content-Type must be application/json" }, 415, request);
   }
 
-  // Optional: validate webhook token if WEBHOOK_SECRET is set
+  // Optional: validate the bearer token against WEBHOOK_SECRET and the token registry.
+  // Tokens are required once WEBHOOK_SECRET is set or any registered token is active.
+  const token = getBearerToken(request);
   const webhookSecret = env.WEBHOOK_SECRET;
-  if (webhookSecret) {
-    const authHeader = request.headers.get("Authorization");
-    const token = authHeader?.startsWith("Bearer ")
-      ? authHeader.slice(7)
-      : null;
+  let site: string | null = null;
 
-    if (!token || !(await timingSafeEqual(token, webhookSecret))) {
+  if (!(token && webhookSecret && (await timingSafeEqual(token, webhookSecret)))) {
+    const authResponse = await room.fetch("http://internal/tokens/authenticate", {
+      method: "POST",
+      body: JSON.stringify({ tokenHash: token ? await hashToken(token) : null }),
+    });
+    if (!authResponse.ok) {
+      console.error(`Failed to check webhook token: ${authResponse.status}`);
+      return json({ error: "Failed to verify token" }, 500, request);
+    }
+
+    const auth = (await authResponse.json()) as {
+      token: WebhookToken | null;
+      enforced: boolean;
+    };
+    if (auth.token) {
+      site = auth.token.site;
+    } else if (webhookSecret || auth.enforced) {
+      return json({ error: "Unauthorized" }, 401, request);
+    }
+  }
+
+  const rawBody = await request.text();
+  if (new TextEncoder().encode(rawBody).length > MAX_WEBHOOK_PAYLOAD_SIZE) {
+    return json({ error: "Payload too large" }, 413, request);
+  }
+
+  // Optional: verify the HMAC signature and reject replays if WEBHOOK_SIGNING_SECRET is set
+  const signingSecret = env.WEBHOOK_SIGNING_SECRET;
+  if (signingSecret) {
+    const tolerance = parseInt(env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS || "", 10);
+    const signature = await verifyWebhookSignature(
+      request.headers,
+      rawBody,
+      signingSecret,
+      tolerance > 0 ? tolerance : DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+    );
+    if (!signature.valid) {
+      console.error(`Webhook signature rejected: ${signature.error}`);
+      return json({ error: "Unauthorized" }, 401, request);
+    }
+
+    const nonceResponse = await room.fetch("http://internal/nonce", {
+      method: "POST",
+      body: JSON.stringify({ nonce: signature.nonce, expiresAt: signature.expiresAt }),
+    });
+    if (!nonceResponse.ok) {
+      console.error(`Failed to check webhook nonce: ${nonceResponse.status}`);
+      return json({ error: "Failed to verify signature" }, 500, request);
+    }
+    const { fresh } = (await nonceResponse.json()) as { fresh: boolean };
+    if (!fresh) {
+      console.error("Webhook signature rejected: nonce already used");
       return json({ error: "Unauthorized" }, 401, request);
     }
   }
 
+  return { rawBody, site };
+}
+
+// POST /webhook
+async function handleWebhook(request: Request, env: Env, tenant: string): Promise<Response> {
+  const room = getRoom(env, tenant);
+  const received = await receiveWebhook(request, env, room);
+  if (received instanceof Response) return received;
+  const { rawBody, site } = received;
+  const piiPolicy = getPiiPolicy(env);
+
   let payload: unknown;
   try {
-    payload = await request.json();
+    payload = JSON.parse(rawBody);
   } catch {
+    await quarantinePayload(room, request, rawBody, "Invalid JSON payload", site, piiPolicy);
     return json({ error: "Invalid JSON payload" }, 400, request);
   }
 
   const validation = validateWebhookPayload(payload);
   if (!validation.valid) {
-    // Log detailed error server-side; return generic message to client
+    // Log and quarantine the detailed error server-side; return generic message to client
     console.error(`Webhook validation failed: ${validation.error}`);
+    await quarantinePayload(
+      room,
+      request,
+      rawBody,
+      validation.error ?? "Invalid payload",
+      site,
+      piiPolicy,
+    );
     return json({ error: "Invalid webhook payload" }, 400, request);
   }
 
-  const webhookPayload = payload as SetupManagerWebhook;
-  const timestamp = Date.now();
-  const eventId = `${webhookPayload.event}:${webhookPayload.serialNumber}:${timestamp}`;
+  const result = await storeEvent(
+    room,
+    payload as StoredEvent["payload"],
+    Date.now(),
+    site,
+    piiPolicy,
+  );
+  if (!result) {
+    return json({ error: "Failed to store event" }, 500, request);
+  }
+
+  // A retried delivery is acknowledged with the ID of the stored original
+  if (!result.stored) {
+    return json({ success: true, eventId: result.eventId, duplicate: true }, 200, request);
+  }
 
-  const storedEvent: StoredEvent = { payload: webhookPayload, timestamp, eventId };
+  return json({ success: true, eventId: result.eventId }, 200, request);
+}
 
-  await env.WEBHOOKS.put(eventId, JSON.stringify(storedEvent), {
-    expirationTtl: 60 * 60 * 24 * 90,
-  });
+// POST /webhook/validate — dry run: report every validation issue, store nothing
+async function handleValidateWebhook(
+  request: Request,
+  env: Env,
+  tenant: string,
+): Promise<Response> {
+  const received = await receiveWebhook(request, env, getRoom(env, tenant));
+  if (received instanceof Response) return received;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(received.rawBody);
+  } catch {
+    const issue: ValidationIssue = {
+      path: "",
+      code: "invalid_format",
+      message: "Invalid JSON payload",
+    };
+    return json({ valid: false, issues: [issue] }, 200, request);
+  }
+
+  const { valid, issues } = validateWebhookPayload(payload);
+  return json({ valid, issues }, 200, request);
+}
+
+/**
+ * Enrich a validated payload with hardware and OS details and hand it to
+ * the dashboard room, which persists it in SQLite and broadcasts it. Returns null if the room failed to store it;
+ * `stored` is false for a duplicate of an already stored event.
+ * With PII_REDACTION = "store", personal fields are redacted first.
+ */
+async function storeEvent(
+  room: Room,
+  payload: StoredEvent["payload"],
+  timestamp: number,
+  site: string | null,
+  piiPolicy: PiiPolicy,
+): Promise<{ eventId: string; stored: boolean } | null> {
+  const eventId = await deriveEventId(payload);
+  const storedEvent: StoredEvent = {
+    payload: piiPolicy.redactAt === "store" ? await redactPayload(payload, piiPolicy) : payload,
+    schemaVersion: CURRENT_EVENT_SCHEMA_VERSION,
+    enrichment: enrichPayload(payload),
+    timestamp,
+    eventId,
+  };
+  if (site) storedEvent.site = site;
 
-  const roomId = env.DASHBOARD_ROOM.idFromName("main");
-  const room = env.DASHBOARD_ROOM.get(roomId);
-  await room.fetch("http://internal/broadcast", {
+  const response = await room.fetch("http://internal/event", {
     method: "POST",
-    body: JSON.stringify({ type: "setup-manager-event", data: storedEvent }),
+    body: JSON.stringify(storedEvent),
   });
+  if (!response.ok) {
+    console.error(`Failed to store webhook event: ${response.status}`);
+    return null;
+  }
+
+  const { stored } = (await response.json()) as { stored: boolean };
+  return { eventId, stored };
+}
+
+/** Request headers kept with quarantined payloads to help trace the sender */
+const QUARANTINE_HEADERS = ["User-Agent", "Content-Type", "Content-Length", "CF-IPCountry"];
+
+/**
+ * Keep a rejected payload in the room's quarantine so it can be inspected
+ * and re-ingested later. Failures are logged but never fail the request.
+ */
+async function quarantinePayload(
+  room: Room,
+  request: Request,
+  rawBody: string,
+  error: string,
+  site: string | null,
+  piiPolicy: PiiPolicy,
+): Promise<void> {
+  const headers: Record<string, string> = {};
+  for (const name of QUARANTINE_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers[name] = value;
+  }
+
+  try {
+    const response = await room.fetch("http://internal/rejected", {
+      method: "POST",
+      body: JSON.stringify({
+        receivedAt: Date.now(),
+        error,
+        body: piiPolicy.redactAt === "store" ? await redactRawBody(rawBody, piiPolicy) : rawBody,
+        headers,
+        site,
+      }),
+    });
+    if (!response.ok) {
+      console.error(`Failed to quarantine rejected payload: ${response.status}`);
+    }
+  } catch (err) {
+    console.error("Failed to quarantine rejected payload:", err);
+  }
+}
 
-  return json({ success: true, eventId }, 200, request);
+/** A tenant's dashboard room; only its fetch is used */
+type Room = Pick<DurableObjectStub, "fetch">;
+
+/**
+ * Each tenant has its own dashboard room, and with it its own storage.
+ * Requests are tagged with the tenant, which the room needs to tell
+ * whether it is the default tenant's room.
+ */
+function getRoom(env: Env, tenant: string): Room {
+  const stub = env.DASHBOARD_ROOM.get(env.DASHBOARD_ROOM.idFromName(tenant));
+  return {
+    fetch: (input, init) => {
+      const request = new Request(input, init);
+      request.headers.set(TENANT_HEADER, tenant);
+      return stub.fetch(request);
+    },
+  };
 }
 
+/**
+ * Forward a read to the dashboard room, which owns event storage,
+ * and re-wrap its JSON response with CORS and security headers
+ */
+async function fetchFromRoom(
+  request: Request,
+  env: Env,
+  tenant: string,
+  path: string,
+  init?: RequestInit,
+): Promise<Response> {
+  const response = await getRoom(env, tenant).fetch(`http://internal${path}`, init);
+  return json(await response.json(), response.status, request);
+}
+
+function parseLimit(url: URL): number {
+  const limitParam = url.searchParams.get("limit");
+  return Math.min(Math.max(parseInt(limitParam || "100", 10) || 100, 1), 1000);
+}
+
+/** Headers telling the dashboard room whether the caller may see personal data in clear */
+function piiAccessHeaders(canRevealPii: boolean): Record<string, string> {
+  return { [PII_ACCESS_HEADER]: canRevealPii ? "clear" : "redacted" };
+}
+
+/** /api/events filters on personal fields; non-admins may not filter by redacted ones */
+const PII_FILTERS: Record<string, PiiField[]> = {
+  userID: ["userEntry.userID"],
+  department: ["userEntry.department"],
+  computerName: ["computerName", "userEntry.computerName"],
+};
+
 // GET /api/events
-async function handleEvents(request: Request, env: Env): Promise<Response> {
+// Filters and the pagination cursor are validated by the dashboard room
+async function handleEvents(
+  request: Request,
+  env: Env,
+  tenant: string,
+  canRevealPii: boolean,
+): Promise<Response> {
   const url = new URL(request.url);
-  const limitParam = url.searchParams.get("limit");
-  const limit = Math.min(Math.max(parseInt(limitParam || "100", 10) || 100, 1), 1000);
-
-  const list = await env.WEBHOOKS.list({ limit });
-  const events = await Promise.all(
-    list.keys.map(async (key) => {
-      const data = await env.WEBHOOKS.get(key.name);
-      if (!data) return null;
-      try {
-        return JSON.parse(data) as StoredEvent;
-      } catch {
-        return null;
+
+  const piiPolicy = getPiiPolicy(env);
+  if (!canRevealPii && needsServeRedaction(piiPolicy)) {
+    for (const [param, fields] of Object.entries(PII_FILTERS)) {
+      if (url.searchParams.has(param) && fields.some((f) => isRedactedField(piiPolicy, f))) {
+        return json({ error: `Filtering by ${param} requires the admin role` }, 403, request);
       }
-    })
-  );
+    }
+  }
 
-  const validEvents = events
-    .filter((e): e is StoredEvent => e !== null)
-    .sort((a, b) => b.timestamp - a.timestamp);
+  return fetchFromRoom(request, env, tenant, `/events${url.search}`, {
+    headers: piiAccessHeaders(canRevealPii),
+  });
+}
 
-  return json(validEvents, 200, request);
+/** Valid values for the /api/sessions state filter */
+const SESSION_STATES: readonly SessionState[] = [
+  "in-progress",
+  "finished",
+  "finished-with-failures",
+  "abandoned",
+  "stalled",
+];
+
+// GET /api/sessions
+async function handleSessions(
+  request: Request,
+  env: Env,
+  tenant: string,
+  canRevealPii: boolean,
+): Promise<Response> {
+  const url = new URL(request.url);
+  const params = new URLSearchParams({ limit: String(parseLimit(url)) });
+
+  const stateParam = url.searchParams.get("state");
+  if (stateParam) {
+    if (!SESSION_STATES.includes(stateParam as SessionState)) {
+      return json({ error: "Invalid session state" }, 400, request);
+    }
+    params.set("state", stateParam);
+  }
+
+  return fetchFromRoom(request, env, tenant, `/sessions?${params}`, {
+    headers: piiAccessHeaders(canRevealPii),
+  });
 }
 
 // GET /api/stats
-async function handleStats(request: Request, env: Env): Promise<Response> {
-  const list = await env.WEBHOOKS.list({ limit: 1000 });
-  const events = await Promise.all(
-    list.keys.map(async (key) => {
-      const data = await env.WEBHOOKS.get(key.name);
-      if (!data) return null;
-      try {
-        return JSON.parse(data) as StoredEvent;
-      } catch {
-        return null;
-      }
-    })
-  );
+// Time range and groupBy are validated by the dashboard room
+async function handleStats(request: Request, env: Env, tenant: string): Promise<Response> {
+  const url = new URL(request.url);
+  return fetchFromRoom(request, env, tenant, `/stats${url.search}`);
+}
 
-  const validEvents = events.filter((e): e is StoredEvent => e !== null);
-  const startedEvents = validEvents.filter(
-    (e) => e.payload.event === "com.jamf.setupmanager.started"
-  );
-  const finishedEvents = validEvents.filter(
-    (e) => e.payload.event === "com.jamf.setupmanager.finished"
-  );
+/** Maximum length of webhook token names and site labels */
+const MAX_TOKEN_LABEL_LENGTH = 100;
 
-  const stats = {
-    total: validEvents.length,
-    started: startedEvents.length,
-    finished: finishedEvents.length,
-    avgDuration: 0,
-    successRate: 0,
-    devices: new Set(validEvents.map((e) => e.payload.serialNumber)).size,
-    lastEventTime:
-      validEvents.length > 0
-        ? Math.max(...validEvents.map((e) => e.timestamp))
-        : null,
-  };
+// GET /api/tokens
+async function handleListTokens(request: Request, env: Env, tenant: string): Promise<Response> {
+  return fetchFromRoom(request, env, tenant, "/tokens");
+}
+
+// POST /api/tokens — the token itself is only returned in this response
+async function handleCreateToken(request: Request, env: Env, tenant: string): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400, request);
+  }
 
-  if (finishedEvents.length > 0) {
-    const durations = finishedEvents.map((e) =>
-      "duration" in e.payload ? e.payload.duration : 0
+  const { name, site } = (body ?? {}) as { name?: unknown; site?: unknown };
+  if (typeof name !== "string" || !name.trim() || name.length > MAX_TOKEN_LABEL_LENGTH) {
+    return json(
+      { error: `name must be a non-empty string of at most ${MAX_TOKEN_LABEL_LENGTH} characters` },
+      400,
+      request,
     );
-    stats.avgDuration = Math.round(
-      durations.reduce((a, b) => a + b, 0) / durations.length
+  }
+  if (
+    site !== undefined &&
+    site !== null &&
+    (typeof site !== "string" || site.length > MAX_TOKEN_LABEL_LENGTH)
+  ) {
+    return json(
+      { error: `site must be a string of at most ${MAX_TOKEN_LABEL_LENGTH} characters` },
+      400,
+      request,
     );
+  }
 
-    const successfulEnrollments = finishedEvents.filter((e) => {
-      if ("enrollmentActions" in e.payload && e.payload.enrollmentActions) {
-        return e.payload.enrollmentActions.every((a) => a.status === "finished");
-      }
-      return true;
-    });
-    stats.successRate = Math.round(
-      (successfulEnrollments.length / finishedEvents.length) * 100
+  const token = generateWebhookToken();
+  const response = await getRoom(env, tenant).fetch("http://internal/tokens", {
+    method: "POST",
+    body: JSON.stringify({
+      name: name.trim(),
+      site: typeof site === "string" && site.trim() ? site.trim() : null,
+      tokenHash: await hashToken(token),
+    }),
+  });
+  if (!response.ok) {
+    console.error(`Failed to create webhook token: ${response.status}`);
+    return json({ error: "Failed to create token" }, 500, request);
+  }
+
+  const created = (await response.json()) as WebhookToken;
+  return json({ ...created, token }, 201, request);
+}
+
+// DELETE /api/tokens/:id — revoke a token
+async function handleRevokeToken(
+  request: Request,
+  env: Env,
+  tenant: string,
+  id: string,
+): Promise<Response> {
+  return fetchFromRoom(request, env, tenant, `/tokens/${id}`, { method: "DELETE" });
+}
+
+const SERVICE_TOKEN_SCOPES: readonly ServiceTokenScope[] = ["events:read", "stats:read", "admin"];
+
+/** Longest service token lifetime that can be requested */
+const MAX_SERVICE_TOKEN_DAYS = 3650;
+
+// GET /api/service-tokens
+async function handleListServiceTokens(request: Request, env: Env, tenant: string): Promise<Response> {
+  return fetchFromRoom(request, env, tenant, "/service-tokens");
+}
+
+// POST /api/service-tokens — the token itself is only returned in this response
+async function handleCreateServiceToken(
+  request: Request,
+  env: Env,
+  tenant: string,
+): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400, request);
+  }
+
+  const { name, scopes, expiresInDays } = (body ?? {}) as Record<string, unknown>;
+  if (typeof name !== "string" || !name.trim() || name.length > MAX_TOKEN_LABEL_LENGTH) {
+    return json(
+      { error: `name must be a non-empty string of at most ${MAX_TOKEN_LABEL_LENGTH} characters` },
+      400,
+      request,
+    );
+  }
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every((scope) => SERVICE_TOKEN_SCOPES.includes(scope))
+  ) {
+    return json(
+      { error: `scopes must be a non-empty array of: ${SERVICE_TOKEN_SCOPES.join(", ")}` },
+      400,
+      request,
+    );
+  }
+  if (
+    expiresInDays !== undefined &&
+    expiresInDays !== null &&
+    (!Number.isInteger(expiresInDays) ||
+      (expiresInDays as number) < 1 ||
+      (expiresInDays as number) > MAX_SERVICE_TOKEN_DAYS)
+  ) {
+    return json(
+      { error: `expiresInDays must be a number of days from 1 to ${MAX_SERVICE_TOKEN_DAYS}` },
+      400,
+      request,
+    );
+  }
+
+  const token = generateServiceToken();
+  const response = await getRoom(env, tenant).fetch("http://internal/service-tokens", {
+    method: "POST",
+    body: JSON.stringify({
+      name: name.trim(),
+      scopes: Array.from(new Set(scopes as ServiceTokenScope[])),
+      expiresAt:
+        typeof expiresInDays === "number" ? Date.now() + expiresInDays * 24 * 60 * 60 * 1000 : null,
+      tokenHash: await hashToken(token),
+    }),
+  });
+  if (!response.ok) {
+    console.error(`Failed to create service token: ${response.status}`);
+    return json({ error: "Failed to create token" }, 500, request);
+  }
+
+  const created = (await response.json()) as ServiceToken;
+  return json({ ...created, token }, 201, request);
+}
+
+// DELETE /api/service-tokens/:id — revoke a service token
+async function handleRevokeServiceToken(
+  request: Request,
+  env: Env,
+  tenant: string,
+  id: string,
+): Promise<Response> {
+  return fetchFromRoom(request, env, tenant, `/service-tokens/${id}`, { method: "DELETE" });
+}
+
+// GET /api/notifications/channels — channel URLs are redacted
+async function handleListNotificationChannels(
+  request: Request,
+  env: Env,
+  tenant: string,
+): Promise<Response> {
+  return fetchFromRoom(request, env, tenant, "/notifications/channels");
+}
+
+// POST /api/notifications/channels
+async function handleCreateNotificationChannel(
+  request: Request,
+  env: Env,
+  tenant: string,
+): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400, request);
+  }
+
+  const input = parseNotificationChannelInput(body);
+  if ("error" in input) {
+    return json({ error: input.error }, 400, request);
+  }
+
+  return fetchFromRoom(request, env, tenant, "/notifications/channels", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+// DELETE /api/notifications/channels/:id — pending deliveries are dropped
+async function handleDeleteNotificationChannel(
+  request: Request,
+  env: Env,
+  tenant: string,
+  id: string,
+): Promise<Response> {
+  return fetchFromRoom(request, env, tenant, `/notifications/channels/${id}`, {
+    method: "DELETE",
+  });
+}
+
+const NOTIFICATION_DELIVERY_STATUSES: readonly NotificationDeliveryStatus[] = [
+  "pending",
+  "delivered",
+  "failed",
+];
+
+// GET /api/notifications/deliveries — the delivery log, newest first
+async function handleNotificationDeliveries(
+  request: Request,
+  env: Env,
+  tenant: string,
+): Promise<Response> {
+  const url = new URL(request.url);
+  const params = new URLSearchParams({ limit: String(parseLimit(url)) });
+
+  const status = url.searchParams.get("status");
+  if (status) {
+    if (!NOTIFICATION_DELIVERY_STATUSES.includes(status as NotificationDeliveryStatus)) {
+      return json({ error: "Invalid delivery status" }, 400, request);
+    }
+    params.set("status", status);
+  }
+
+  return fetchFromRoom(request, env, tenant, `/notifications/deliveries?${params}`);
+}
+
+// GET /api/alerts — raised alerts, most recent first
+async function handleAlerts(request: Request, env: Env, tenant: string): Promise<Response> {
+  const url = new URL(request.url);
+  const params = new URLSearchParams({ limit: String(parseLimit(url)) });
+
+  const state = url.searchParams.get("state");
+  if (state) {
+    if (state !== "active" && state !== "resolved") {
+      return json({ error: "state must be \"active\" or \"resolved\"" }, 400, request);
+    }
+    params.set("state", state);
+  }
+
+  return fetchFromRoom(request, env, tenant, `/alerts?${params}`);
+}
+
+// GET /api/alerts/rules
+async function handleListAlertRules(request: Request, env: Env, tenant: string): Promise<Response> {
+  return fetchFromRoom(request, env, tenant, "/alerts/rules");
+}
+
+// POST /api/alerts/rules
+async function handleCreateAlertRule(request: Request, env: Env, tenant: string): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400, request);
+  }
+
+  const input = parseAlertRuleInput(body);
+  if ("error" in input) {
+    return json({ error: input.error }, 400, request);
+  }
+
+  return fetchFromRoom(request, env, tenant, "/alerts/rules", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+// DELETE /api/alerts/rules/:id — resolves the rule's active alert
+async function handleDeleteAlertRule(
+  request: Request,
+  env: Env,
+  tenant: string,
+  id: string,
+): Promise<Response> {
+  return fetchFromRoom(request, env, tenant, `/alerts/rules/${id}`, { method: "DELETE" });
+}
+
+/** Longest serial number accepted by the erase API */
+const MAX_SERIAL_NUMBER_LENGTH = 100;
+
+// DELETE /api/devices/:serialNumber — erase every event and rollup contribution of a device
+async function handleEraseDevice(
+  request: Request,
+  env: Env,
+  tenant: string,
+  encodedSerialNumber: string,
+  identity: Identity,
+): Promise<Response> {
+  let serialNumber: string;
+  try {
+    serialNumber = decodeURIComponent(encodedSerialNumber).trim();
+  } catch {
+    return json({ error: "Invalid serial number" }, 400, request);
+  }
+  if (!serialNumber || serialNumber.length > MAX_SERIAL_NUMBER_LENGTH) {
+    return json({ error: "Invalid serial number" }, 400, request);
+  }
+
+  return fetchFromRoom(request, env, tenant, `/devices/${encodeURIComponent(serialNumber)}/erase`, {
+    method: "POST",
+    body: JSON.stringify({ requestedBy: describeIdentity(identity) }),
+  });
+}
+
+// GET /api/erasures — log of device erasures, newest first
+async function handleErasures(request: Request, env: Env, tenant: string): Promise<Response> {
+  const url = new URL(request.url);
+  return fetchFromRoom(request, env, tenant, `/erasures?limit=${parseLimit(url)}`);
+}
+
+// GET /api/rejected — quarantined payloads with counts per rejection reason
+async function handleRejected(
+  request: Request,
+  env: Env,
+  tenant: string,
+  canRevealPii: boolean,
+): Promise<Response> {
+  const url = new URL(request.url);
+  const params = new URLSearchParams({ limit: String(parseLimit(url)) });
+  const reason = url.searchParams.get("reason");
+  if (reason) params.set("reason", reason);
+  return fetchFromRoom(request, env, tenant, `/rejected?${params}`, {
+    headers: piiAccessHeaders(canRevealPii),
+  });
+}
+
+// POST /api/rejected/:id/reingest — validate a quarantined payload again and store it
+async function handleReingest(
+  request: Request,
+  env: Env,
+  tenant: string,
+  id: string,
+): Promise<Response> {
+  const room = getRoom(env, tenant);
+  const response = await room.fetch(`http://internal/rejected/${id}`);
+  if (!response.ok) {
+    return json(await response.json(), response.status, request);
+  }
+
+  const rejected = (await response.json()) as RejectedPayload;
+  if (rejected.reingestedAt !== null) {
+    return json(
+      { error: "Payload was already re-ingested", eventId: rejected.eventId },
+      409,
+      request,
     );
   }
 
-  return json(stats, 200, request);
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rejected.body);
+  } catch {
+    return json({ error: "Invalid JSON payload" }, 422, request);
+  }
+
+  const validation = validateWebhookPayload(payload);
+  if (!validation.valid) {
+    return json({ error: validation.error }, 422, request);
+  }
+
+  // Keep the original receive time so the event lands where it belongs on the timeline
+  const result = await storeEvent(
+    room,
+    payload as StoredEvent["payload"],
+    rejected.receivedAt,
+    rejected.site,
+    getPiiPolicy(env),
+  );
+  if (!result) {
+    return json({ error: "Failed to store event" }, 500, request);
+  }
+
+  await room.fetch(`http://internal/rejected/${id}/reingested`, {
+    method: "POST",
+    body: JSON.stringify({ eventId: result.eventId }),
+  });
+
+  return json(
+    { success: true, eventId: result.eventId, duplicate: !result.stored },
+    200,
+    request,
+  );
+}
+
+// GET /api/schema — JSON Schema of webhook payloads, generated from schema.ts
+function handleSchema(request: Request): Response {
+  return json(getWebhookJsonSchema(), 200, request);
 }
 
 // GET /api/health
-async function handleHealth(request: Request, env: Env): Promise<Response> {
+async function handleHealth(request: Request, env: Env, tenant: string): Promise<Response> {
   const health: {
     status: string;
     timestamp: number;
-    kv: string;
     durable_objects: string;
     connections?: number;
+    events?: number;
+    duplicates_suppressed?: number;
   } = {
     status: "healthy",
     timestamp: Date.now(),
-    kv: "unknown",
     durable_objects: "unknown",
   };
 
-  try {
-    if (env?.WEBHOOKS) {
-      await env.WEBHOOKS.list({ limit: 1 });
-      health.kv = "connected";
-    } else {
-      health.kv = "not configured";
-      health.status = "degraded";
-    }
-  } catch {
-    health.kv = "error";
-    health.status = "degraded";
-  }
-
   try {
     if (env?.DASHBOARD_ROOM) {
-      const roomId = env.DASHBOARD_ROOM.idFromName("main");
-      const room = env.DASHBOARD_ROOM.get(roomId);
-      const response = await room.fetch("http://internal/connections");
+      const response = await getRoom(env, tenant).fetch("http://internal/health");
       if (response.ok) {
-        const data = (await response.json()) as { connections: number };
+        const data = (await response.json()) as {
+          connections: number;
+          events: number;
+          duplicatesSuppressed: number;
+        };
         health.durable_objects = "connected";
         health.connections = data.connections;
+        health.events = data.events;
+        health.duplicates_suppressed = data.duplicatesSuppressed;
       } else {
         health.durable_objects = "error";
         health.status = "degraded";
@@ -396,14 +1056,280 @@ async function handleHealth(request: Request, env: Env): Promise<Response> {
   return json(health, health.status === "healthy" ? 200 : 503, request);
 }
 
+const AUDIT_ACTIONS: readonly AuditAction[] = [
+  "data.view",
+  "data.export",
+  "device.erase",
+  "rejected.reingest",
+  "webhook-token.create",
+  "webhook-token.revoke",
+  "service-token.create",
+  "service-token.revoke",
+  "notification-channel.create",
+  "notification-channel.delete",
+  "alert-rule.create",
+  "alert-rule.delete",
+];
+
+/** Who an audit entry is recorded for, and where */
+interface AuditContext {
+  env: Env;
+  tenant: string;
+  identity: Identity;
+}
+
+function appendAuditEntry(
+  context: AuditContext,
+  action: AuditAction,
+  target: string | null,
+  details: Record<string, unknown> | null,
+): Promise<Response> {
+  const entry: Omit<AuditEntry, "id" | "time"> = {
+    actor: describeIdentity(context.identity),
+    role: context.identity.role,
+    action,
+    target,
+    details,
+  };
+  return getRoom(context.env, context.tenant).fetch("http://internal/audit", {
+    method: "POST",
+    body: JSON.stringify(entry),
+  });
+}
+
+/**
+ * Record an audit entry for a route once it has succeeded. Without a
+ * target, created resources are identified by the ID in the response.
+ * The action has already happened, so a failure to record it is only logged.
+ */
+async function audited(
+  context: AuditContext,
+  action: AuditAction,
+  response: Response,
+  target: string | null = null,
+  details: Record<string, unknown> | null = null,
+): Promise<Response> {
+  // 101 is a successful WebSocket upgrade
+  if (!response.ok && response.status !== 101) return response;
+
+  if (target === null && response.status === 201) {
+    const { id } = (await response.clone().json()) as { id?: unknown };
+    target = typeof id === "string" ? id : null;
+  }
+
+  const recorded = await appendAuditEntry(context, action, target, details);
+  if (!recorded.ok) {
+    console.error(`Failed to record ${action} in the audit log: ${recorded.status}`);
+  }
+  return response;
+}
+
+/**
+ * Query parameters of data views whose values are recorded in the audit log.
+ * Entries can never be erased or redacted later, so other parameters, such
+ * as the computerName, userID and department filters, are recorded by name.
+ */
+const AUDITED_QUERY_VALUES: readonly string[] = [
+  "event",
+  "failed",
+  "serial",
+  "model",
+  "macOSVersion",
+  "site",
+  "state",
+  "reason",
+  "from",
+  "to",
+  "limit",
+  "cursor",
+];
+
+/** Shown in place of query values that are not recorded */
+const WITHHELD_QUERY_VALUE = "(withheld)";
+
+/** Details of a data view: the query and whether personal data was served in clear */
+function viewDetails(request: Request, canRevealPii: boolean): Record<string, unknown> {
+  const { searchParams } = new URL(request.url);
+  const query = Object.fromEntries(
+    Array.from(searchParams, ([name, value]) => [
+      name,
+      AUDITED_QUERY_VALUES.includes(name) ? value : WITHHELD_QUERY_VALUE,
+    ]),
+  );
+  return {
+    query: Object.keys(query).length > 0 ? query : null,
+    personalData: canRevealPii ? "clear" : "redacted",
+  };
+}
+
+/** Path parameter as an audit target; undecodable ones are kept as sent */
+function decodeTarget(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+// GET /api/audit — audit log entries, newest first
+async function handleAudit(request: Request, env: Env, tenant: string): Promise<Response> {
+  const url = new URL(request.url);
+  const limit = parseLimit(url);
+  const params = new URLSearchParams({ limit: String(limit) });
+
+  const action = url.searchParams.get("action");
+  if (action) {
+    if (!AUDIT_ACTIONS.includes(action as AuditAction)) {
+      return json({ error: `action must be one of: ${AUDIT_ACTIONS.join(", ")}` }, 400, request);
+    }
+    params.set("action", action);
+  }
+  const actor = url.searchParams.get("actor");
+  if (actor) params.set("actor", actor);
+  const cursor = url.searchParams.get("cursor");
+  if (cursor) {
+    if (!/^\d+$/.test(cursor)) {
+      return json({ error: "Invalid cursor" }, 400, request);
+    }
+    params.set("before", cursor);
+  }
+
+  const response = await getRoom(env, tenant).fetch(`http://internal/audit?${params}`);
+  if (!response.ok) {
+    return json({ error: "Failed to read the audit log" }, 500, request);
+  }
+  const entries = (await response.json()) as AuditEntry[];
+  const nextCursor = entries.length === limit ? String(entries[entries.length - 1].id) : null;
+  return json({ entries, nextCursor }, 200, request);
+}
+
+const EXPORT_FORMATS = ["csv", "json"];
+
+// POST /api/audit/exports — the dashboard reports exports, which happen in the browser
+async function handleRecordExport(request: Request, context: AuditContext): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400, request);
+  }
+
+  const { format, events } = (body ?? {}) as Record<string, unknown>;
+  if (!EXPORT_FORMATS.includes(format as string)) {
+    return json({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` }, 400, request);
+  }
+  if (!Number.isInteger(events) || (events as number) < 0) {
+    return json({ error: "events must be a non-negative integer" }, 400, request);
+  }
+
+  const recorded = await appendAuditEntry(context, "data.export", "dashboard", { format, events });
+  if (!recorded.ok) {
+    console.error(`Failed to record data.export in the audit log: ${recorded.status}`);
+    return json({ error: "Failed to record the export" }, 500, request);
+  }
+  return json(await recorded.json(), 201, request);
+}
+
+/**
+ * Routes that need more than the viewer role. Operators run the day-to-day
+ * work (alert rules, quarantined payloads); token management, notification
+ * settings and device erasure are reserved for admins.
+ */
+const ROUTE_ROLES: { method: string; pattern: RegExp; role: Role }[] = [
+  { method: "*", pattern: /^\/api\/tokens(?:\/|$)/, role: "admin" },
+  { method: "*", pattern: /^\/api\/service-tokens(?:\/|$)/, role: "admin" },
+  { method: "*", pattern: /^\/api\/notifications\//, role: "admin" },
+  { method: "DELETE", pattern: /^\/api\/devices\//, role: "admin" },
+  { method: "GET", pattern: /^\/api\/erasures$/, role: "admin" },
+  { method: "GET", pattern: /^\/api\/audit$/, role: "admin" },
+  { method: "POST", pattern: /^\/api\/audit\/exports$/, role: "operator" },
+  { method: "POST", pattern: /^\/api\/alerts\/rules$/, role: "operator" },
+  { method: "DELETE", pattern: /^\/api\/alerts\/rules\//, role: "operator" },
+  { method: "*", pattern: /^\/api\/rejected(?:\/|$)/, role: "operator" },
+];
+
+function getRequiredRole(method: string, path: string): Role {
+  const route = ROUTE_ROLES.find(
+    (r) => (r.method === "*" || r.method === method) && r.pattern.test(path),
+  );
+  return route?.role ?? "viewer";
+}
+
+/** Routes service tokens can read with a narrower scope than admin */
+const SCOPED_ROUTES: { path: string; scope: ServiceTokenScope }[] = [
+  { path: "/api/events", scope: "events:read" },
+  { path: "/api/sessions", scope: "events:read" },
+  { path: "/api/stats", scope: "stats:read" },
+];
+
+/** Whether a service token may make a request; it never reaches the dashboard or /ws */
+function isInTokenScope(token: ServiceToken, method: string, path: string): boolean {
+  if (!path.startsWith("/api/")) return false;
+  if (token.scopes.includes("admin")) return true;
+  const route = SCOPED_ROUTES.find((r) => r.path === path);
+  return method === "GET" && !!route && token.scopes.includes(route.scope);
+}
+
+/**
+ * Identify the user of a dashboard or API request: by service token if the
+ * request carries one, otherwise by its Access token
+ */
+async function authenticate(
+  request: Request,
+  env: Env,
+  tenant: string,
+  path: string,
+): Promise<{ identity: Identity } | { denied: Response }> {
+  const bearerToken = getBearerToken(request);
+  if (!bearerToken || !isServiceToken(bearerToken)) {
+    return validateAccessJwt(request, env);
+  }
+
+  const response = await getRoom(env, tenant).fetch("http://internal/service-tokens/authenticate", {
+    method: "POST",
+    body: JSON.stringify({ tokenHash: await hashToken(bearerToken) }),
+  });
+  if (!response.ok) {
+    console.error(`Failed to check service token: ${response.status}`);
+    return { denied: json({ error: "Failed to verify token" }, 500, request) };
+  }
+
+  const auth = (await response.json()) as { token: ServiceToken | null };
+  if (!auth.token) {
+    return { denied: json({ error: "Invalid, expired or revoked service token" }, 401, request) };
+  }
+  if (!isInTokenScope(auth.token, request.method, path)) {
+    return { denied: json({ error: "Forbidden: outside the service token's scopes" }, 403, request) };
+  }
+  return { identity: getServiceTokenIdentity(auth.token) };
+}
+
+// GET /api/me — the signed-in user and their role, so the dashboard can hide what they may not use
+function handleMe(request: Request, identity: Identity, canRevealPii: boolean): Response {
+  const user: CurrentUser = {
+    email: identity.claims?.email ?? null,
+    role: identity.role,
+    seesPersonalData: canRevealPii,
+  };
+  return json(user, 200, request);
+}
+
 // GET /ws — WebSocket upgrade
-function handleWebSocket(request: Request, env: Env): Response {
+function handleWebSocket(
+  request: Request,
+  env: Env,
+  tenant: string,
+  canRevealPii: boolean,
+): Response {
   if (request.headers.get("Upgrade") !== "websocket") {
     return new Response("Expected WebSocket upgrade", { status: 426 });
   }
-  const id = env.DASHBOARD_ROOM.idFromName("main");
-  const stub = env.DASHBOARD_ROOM.get(id);
-  return stub.fetch(request) as unknown as Response;
+  // Always overwrite the header, so clients cannot set it themselves
+  const headers = new Headers(request.headers);
+  for (const [name, value] of Object.entries(piiAccessHeaders(canRevealPii))) {
+    headers.set(name, value);
+  }
+  return getRoom(env, tenant).fetch(new Request(request, { headers })) as unknown as Response;
 }
 
 export default {
@@ -414,29 +1340,217 @@ export default {
       return new Response(null, { headers: getCorsHeaders(request) });
     }
 
-    // Webhook endpoint is always open for devices — no Access check
-    if (url.pathname === "/webhook" && request.method === "POST") {
-      return handleWebhook(request, env);
+    const tenants = getTenants(env.TENANTS);
+
+    // Webhook endpoints are open for devices — no Access check, only the
+    // optional source policies (allowed networks, client certificates).
+    // /webhook delivers to the default tenant, /webhook/:tenant to a named one;
+    // /webhook[/:tenant]/validate is a dry run with the same authentication.
+    const webhookMatch = url.pathname.match(/^\/webhook(?:\/([^/]+))??(\/validate)?$/);
+    if (webhookMatch && request.method === "POST") {
+      const tenant = webhookMatch[1] ?? DEFAULT_TENANT;
+      if (!tenants.has(tenant)) {
+        return json({ error: "Unknown tenant" }, 404, request);
+      }
+      if (webhookMatch[2]) {
+        return handleValidateWebhook(request, env, tenant);
+      }
+      return handleWebhook(request, env, tenant);
+    }
+
+    // Tenant dashboards are served under /t/:tenant/; unprefixed routes
+    // belong to the default tenant
+    let tenant = DEFAULT_TENANT;
+    let path = url.pathname;
+    const tenantMatch = path.match(/^\/t\/([^/]+)(\/.*)?$/);
+    if (tenantMatch) {
+      if (!tenants.has(tenantMatch[1])) {
+        return new Response("Not Found", { status: 404 });
+      }
+      tenant = tenantMatch[1];
+      path = tenantMatch[2] ?? "/";
+    }
+
+    // All other routes require Cloudflare Access JWT (if configured) or,
+    // for API clients, a service token of the tenant they call
+    const access = await authenticate(request, env, tenant, path);
+    if ("denied" in access) return access.denied;
+    const { identity } = access;
+
+    // Tenant data is only served to identities mapped to the tenant;
+    // the static dashboard assets are shared by all tenants
+    if (
+      (path.startsWith("/api/") || path === "/ws") &&
+      !canAccessTenant(env.TENANT_ACCESS, identity.claims, tenant)
+    ) {
+      return new Response("Forbidden: no access to this tenant", { status: 403 });
+    }
+
+    const requiredRole = getRequiredRole(request.method, path);
+    if (!hasRole(identity, requiredRole)) {
+      return json({ error: `Forbidden: requires the ${requiredRole} role` }, 403, request);
     }
 
-    // All other routes require Cloudflare Access JWT (if configured)
-    const accessDenied = await validateAccessJwt(request, env);
-    if (accessDenied) return accessDenied;
+    // Only admins see personal data in clear (see PII_POLICY)
+    const canRevealPii = seesPersonalData(identity);
+    const audit: AuditContext = { env, tenant, identity };
+
+    if (path === "/api/me" && request.method === "GET") {
+      return handleMe(request, identity, canRevealPii);
+    }
 
-    if (url.pathname === "/api/events" && request.method === "GET") {
-      return handleEvents(request, env);
+    if (path === "/api/events" && request.method === "GET") {
+      return audited(
+        audit,
+        "data.view",
+        await handleEvents(request, env, tenant, canRevealPii),
+        path,
+        viewDetails(request, canRevealPii),
+      );
+    }
+    if (path === "/api/sessions" && request.method === "GET") {
+      return audited(
+        audit,
+        "data.view",
+        await handleSessions(request, env, tenant, canRevealPii),
+        path,
+        viewDetails(request, canRevealPii),
+      );
+    }
+    if (path === "/api/stats" && request.method === "GET") {
+      return handleStats(request, env, tenant);
+    }
+    if (path === "/api/tokens" && request.method === "GET") {
+      return handleListTokens(request, env, tenant);
+    }
+    if (path === "/api/tokens" && request.method === "POST") {
+      return audited(audit, "webhook-token.create", await handleCreateToken(request, env, tenant));
+    }
+    if (path.startsWith("/api/tokens/") && request.method === "DELETE") {
+      const id = path.slice("/api/tokens/".length);
+      return audited(
+        audit,
+        "webhook-token.revoke",
+        await handleRevokeToken(request, env, tenant, id),
+        decodeTarget(id),
+      );
+    }
+    if (path === "/api/service-tokens" && request.method === "GET") {
+      return handleListServiceTokens(request, env, tenant);
+    }
+    if (path === "/api/service-tokens" && request.method === "POST") {
+      return audited(
+        audit,
+        "service-token.create",
+        await handleCreateServiceToken(request, env, tenant),
+      );
+    }
+    if (path.startsWith("/api/service-tokens/") && request.method === "DELETE") {
+      const id = path.slice("/api/service-tokens/".length);
+      return audited(
+        audit,
+        "service-token.revoke",
+        await handleRevokeServiceToken(request, env, tenant, id),
+        decodeTarget(id),
+      );
+    }
+    if (path === "/api/notifications/channels" && request.method === "GET") {
+      return handleListNotificationChannels(request, env, tenant);
+    }
+    if (path === "/api/notifications/channels" && request.method === "POST") {
+      return audited(
+        audit,
+        "notification-channel.create",
+        await handleCreateNotificationChannel(request, env, tenant),
+      );
     }
-    if (url.pathname === "/api/stats" && request.method === "GET") {
-      return handleStats(request, env);
+    if (path.startsWith("/api/notifications/channels/") && request.method === "DELETE") {
+      const id = path.slice("/api/notifications/channels/".length);
+      return audited(
+        audit,
+        "notification-channel.delete",
+        await handleDeleteNotificationChannel(request, env, tenant, id),
+        decodeTarget(id),
+      );
     }
-    if (url.pathname === "/api/health" && request.method === "GET") {
-      return handleHealth(request, env);
+    if (path === "/api/notifications/deliveries" && request.method === "GET") {
+      return handleNotificationDeliveries(request, env, tenant);
     }
-    if (url.pathname === "/ws") {
-      return handleWebSocket(request, env);
+    if (path === "/api/alerts" && request.method === "GET") {
+      return handleAlerts(request, env, tenant);
+    }
+    if (path === "/api/alerts/rules" && request.method === "GET") {
+      return handleListAlertRules(request, env, tenant);
+    }
+    if (path === "/api/alerts/rules" && request.method === "POST") {
+      return audited(audit, "alert-rule.create", await handleCreateAlertRule(request, env, tenant));
+    }
+    if (path.startsWith("/api/alerts/rules/") && request.method === "DELETE") {
+      const id = path.slice("/api/alerts/rules/".length);
+      return audited(
+        audit,
+        "alert-rule.delete",
+        await handleDeleteAlertRule(request, env, tenant, id),
+        decodeTarget(id),
+      );
+    }
+    if (path.startsWith("/api/devices/") && request.method === "DELETE") {
+      const serialNumber = path.slice("/api/devices/".length);
+      return audited(
+        audit,
+        "device.erase",
+        await handleEraseDevice(request, env, tenant, serialNumber, identity),
+        decodeTarget(serialNumber).trim(),
+      );
+    }
+    if (path === "/api/erasures" && request.method === "GET") {
+      return handleErasures(request, env, tenant);
+    }
+    if (path === "/api/rejected" && request.method === "GET") {
+      return audited(
+        audit,
+        "data.view",
+        await handleRejected(request, env, tenant, canRevealPii),
+        path,
+        viewDetails(request, canRevealPii),
+      );
+    }
+    const reingestMatch = path.match(/^\/api\/rejected\/([^/]+)\/reingest$/);
+    if (reingestMatch && request.method === "POST") {
+      return audited(
+        audit,
+        "rejected.reingest",
+        await handleReingest(request, env, tenant, reingestMatch[1]),
+        decodeTarget(reingestMatch[1]),
+      );
+    }
+    if (path === "/api/audit" && request.method === "GET") {
+      return handleAudit(request, env, tenant);
+    }
+    if (path === "/api/audit/exports" && request.method === "POST") {
+      return handleRecordExport(request, audit);
+    }
+    if (path === "/api/schema" && request.method === "GET") {
+      return handleSchema(request);
+    }
+    if (path === "/api/health" && request.method === "GET") {
+      return handleHealth(request, env, tenant);
+    }
+    if (path === "/ws") {
+      return audited(
+        audit,
+        "data.view",
+        await handleWebSocket(request, env, tenant, canRevealPii),
+        path,
+        viewDetails(request, canRevealPii),
+      );
     }
 
     if (env.ASSETS) {
+      // Every tenant dashboard is the same single-page app
+      if (tenantMatch) {
+        return env.ASSETS.fetch(new Request(new URL(path + url.search, url), request));
+      }
       return env.ASSETS.fetch(request);
     }
 
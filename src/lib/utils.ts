@@ -4,3 +4,8 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/** Tenant dashboards are served under /t/<tenant>/ and talk to that tenant's API */
+export function getTenantPrefix(): string {
+  return window.location.pathname.match(/^\/t\/[^/]+/)?.[0] ?? '';
+}
@@ -0,0 +1,270 @@
+/**
+ * Outbound notifications
+ *
+ * Channels post a message to a Slack incoming webhook, a Microsoft Teams
+ * workflow (as an Adaptive Card) or any URL that accepts JSON when an
+ * enrollment finishes, finishes with failed actions, or stalls. Messages
+ * are rendered when they are queued; the dashboard room's alarm delivers
+ * them and retries failed deliveries with exponential backoff.
+ */
+
+import { hasFailedActions } from "./sessions";
+import {
+  isKnownEvent,
+  type NotificationChannel,
+  type NotificationChannelType,
+  type NotificationTrigger,
+  type SetupManagerFinishedWebhook,
+  type StoredEvent,
+  type TrackedSession,
+} from "./types";
+
+export const NOTIFICATION_TRIGGERS: readonly NotificationTrigger[] = [
+  "finished",
+  "finished-with-failures",
+  "stalled",
+];
+
+const CHANNEL_TYPES: readonly NotificationChannelType[] = ["slack", "teams", "webhook"];
+
+const MAX_CHANNEL_NAME_LENGTH = 100;
+const MAX_TEMPLATE_LENGTH = 2000;
+
+/** A delivery is given up after this many failed attempts */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+/** Delay before the first retry; every further retry waits four times as long */
+const RETRY_BASE_DELAY = 60 * 1000;
+
+/** Channels that take longer to answer count as a failed attempt */
+const DELIVERY_TIMEOUT = 10 * 1000;
+
+const DEFAULT_TEMPLATES: Record<NotificationTrigger, string> = {
+  finished: "{{serialNumber}} ({{modelName}}) finished enrollment in {{durationMinutes}} min",
+  "finished-with-failures":
+    "{{serialNumber}} ({{modelName}}) finished enrollment with {{failedActionCount}} failed action(s): {{failedActions}}",
+  stalled: "Enrollment of {{serialNumber}} ({{modelName}}) has stalled; it started at {{started}}",
+};
+
+const TRIGGER_TITLES: Record<NotificationTrigger, string> = {
+  finished: "Enrollment finished",
+  "finished-with-failures": "Enrollment finished with failed actions",
+  stalled: "Enrollment stalled",
+};
+
+/** Something a channel can be notified about */
+export type Notification =
+  | {
+      trigger: "finished" | "finished-with-failures";
+      event: StoredEvent<SetupManagerFinishedWebhook>;
+    }
+  | { trigger: "stalled"; session: TrackedSession };
+
+export type NotificationChannelInput = Omit<NotificationChannel, "id" | "createdAt">;
+
+export type DeliveryResult = { delivered: true } | { delivered: false; error: string; retryable: boolean };
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/** Validate the body of POST /api/notifications/channels */
+export function parseNotificationChannelInput(
+  body: unknown,
+): NotificationChannelInput | { error: string } {
+  const { name, type, url, triggers, template } = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof name !== "string" || !name.trim() || name.length > MAX_CHANNEL_NAME_LENGTH) {
+    return { error: `name must be a non-empty string of at most ${MAX_CHANNEL_NAME_LENGTH} characters` };
+  }
+  if (!CHANNEL_TYPES.includes(type as NotificationChannelType)) {
+    return { error: `type must be one of: ${CHANNEL_TYPES.join(", ")}` };
+  }
+  if (typeof url !== "string" || !isHttpsUrl(url)) {
+    return { error: "url must be an https URL" };
+  }
+  if (
+    !Array.isArray(triggers) ||
+    triggers.length === 0 ||
+    !triggers.every((trigger) => NOTIFICATION_TRIGGERS.includes(trigger))
+  ) {
+    return { error: `triggers must be a non-empty array of: ${NOTIFICATION_TRIGGERS.join(", ")}` };
+  }
+  if (
+    template !== undefined &&
+    template !== null &&
+    (typeof template !== "string" || template.length > MAX_TEMPLATE_LENGTH)
+  ) {
+    return { error: `template must be a string of at most ${MAX_TEMPLATE_LENGTH} characters` };
+  }
+
+  return {
+    name: name.trim(),
+    type: type as NotificationChannelType,
+    url,
+    triggers: Array.from(new Set(triggers as NotificationTrigger[])),
+    template: typeof template === "string" && template.trim() ? template : null,
+  };
+}
+
+/** Channel with its URL reduced to the origin, since the path usually embeds a secret */
+export function redactChannel(channel: NotificationChannel): NotificationChannel {
+  return { ...channel, url: `${new URL(channel.url).origin}/…` };
+}
+
+/**
+ * The notification a stored event causes on a channel, if any. Only
+ * Finished events notify; a channel subscribed to both finished triggers
+ * gets a single message, for the more specific one.
+ */
+export function getEventNotification(
+  channel: NotificationChannel,
+  event: StoredEvent,
+): Notification | null {
+  if (!isKnownEvent(event) || event.payload.event !== "com.jamf.setupmanager.finished") {
+    return null;
+  }
+  const finished = event as StoredEvent<SetupManagerFinishedWebhook>;
+
+  if (hasFailedActions(finished) && channel.triggers.includes("finished-with-failures")) {
+    return { trigger: "finished-with-failures", event: finished };
+  }
+  if (channel.triggers.includes("finished")) {
+    return { trigger: "finished", event: finished };
+  }
+  return null;
+}
+
+/**
+ * Values templates can reference: every payload field (or session field
+ * for stalled sessions) plus a few derived ones
+ */
+function getTemplateContext(notification: Notification): Record<string, unknown> {
+  if (notification.trigger === "stalled") {
+    return { ...notification.session, trigger: notification.trigger };
+  }
+
+  const { event } = notification;
+  const failedActions = (event.payload.enrollmentActions ?? [])
+    .filter((action) => action.status === "failed")
+    .map((action) => action.label);
+
+  return {
+    ...event.payload,
+    trigger: notification.trigger,
+    eventId: event.eventId,
+    site: event.site,
+    enrichment: event.enrichment,
+    durationMinutes: Math.round(event.payload.duration / 60),
+    failedActionCount: failedActions.length,
+    failedActions: failedActions.join(", "),
+  };
+}
+
+/**
+ * Replace {{path}} placeholders, e.g. {{serialNumber}} or {{userEntry.userID}},
+ * with values from `context`. Unknown paths render as an empty string;
+ * `escape` is applied to every substituted value.
+ */
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>,
+  escape: (value: string) => string = (value) => value,
+): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+    let value: unknown = context;
+    for (const key of path.split(".")) {
+      value =
+        value !== null && typeof value === "object" && Object.hasOwn(value, key)
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+    }
+    if (value === undefined || value === null) return "";
+    return escape(typeof value === "object" ? JSON.stringify(value) : String(value));
+  });
+}
+
+/** Device-supplied values must not turn into Slack mentions or links */
+function escapeSlack(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** Request body for a channel, in the format its type expects */
+export function buildNotificationBody(
+  channel: NotificationChannel,
+  notification: Notification,
+): string {
+  const context = getTemplateContext(notification);
+  const template = channel.template ?? DEFAULT_TEMPLATES[notification.trigger];
+  const title = TRIGGER_TITLES[notification.trigger];
+
+  switch (channel.type) {
+    case "slack":
+      return JSON.stringify({ text: renderTemplate(template, context, escapeSlack) });
+    case "teams":
+      return JSON.stringify({
+        type: "message",
+        attachments: [
+          {
+            contentType: "application/vnd.microsoft.card.adaptive",
+            content: {
+              $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+              type: "AdaptiveCard",
+              version: "1.4",
+              body: [
+                { type: "TextBlock", text: title, weight: "Bolder", size: "Medium", wrap: true },
+                { type: "TextBlock", text: renderTemplate(template, context), wrap: true },
+              ],
+            },
+          },
+        ],
+      });
+    case "webhook":
+      return JSON.stringify({
+        trigger: notification.trigger,
+        title,
+        text: renderTemplate(template, context),
+        ...(notification.trigger === "stalled"
+          ? { session: notification.session }
+          : { event: notification.event }),
+      });
+  }
+}
+
+/** POST a queued notification body to its channel */
+export async function sendNotification(url: string, body: string): Promise<DeliveryResult> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+    });
+  } catch (error) {
+    return {
+      delivered: false,
+      error: error instanceof Error ? error.message : String(error),
+      retryable: true,
+    };
+  }
+
+  await response.body?.cancel();
+  if (response.ok) return { delivered: true };
+
+  // Rate limits and server errors are worth retrying; other client errors are not
+  return {
+    delivered: false,
+    error: `HTTP ${response.status}`,
+    retryable: response.status === 429 || response.status >= 500,
+  };
+}
+
+/** Delay (ms) before the next attempt after `attempts` failed ones */
+export function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY * 4 ** (attempts - 1);
+}
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getPiiPolicy, redactPayload, redactRawBody, type PiiPolicy } from "./pii";
+
+const SECRET = "test-secret";
+
+const PAYLOAD = {
+  event: "com.jamf.setupmanager.finished",
+  serialNumber: "C02XK1JKJG5J",
+  computerName: "Jane's MacBook",
+  userEntry: { userID: "jane.doe", department: "Finance", assetTag: "A-1234" },
+};
+
+function policy(fields: PiiPolicy["fields"], hashSecret: string | null = SECRET): PiiPolicy {
+  return { fields, redactAt: "serve", hashSecret };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("getPiiPolicy", () => {
+  it("reads fields, the redaction point and the hash secret", () => {
+    expect(
+      getPiiPolicy({
+        PII_POLICY: '{"userEntry.userID": "hash", "computerName": "mask"}',
+        PII_REDACTION: "store",
+        PII_HASH_SECRET: SECRET,
+      }),
+    ).toEqual({
+      fields: { "userEntry.userID": "hash", computerName: "mask" },
+      redactAt: "store",
+      hashSecret: SECRET,
+    });
+    expect(getPiiPolicy({})).toEqual({ fields: {}, redactAt: "serve", hashSecret: null });
+  });
+
+  it("ignores and logs unknown fields and methods", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const result = getPiiPolicy({
+      PII_POLICY: JSON.stringify({
+        serialNumber: "drop",
+        computerName: "encrypt",
+        "userEntry.assetTag": "drop",
+      }),
+    });
+    expect(result.fields).toEqual({ "userEntry.assetTag": "drop" });
+    expect(error).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops every personal field when the policy is not valid JSON", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const result = getPiiPolicy({ PII_POLICY: "{computerName: mask}" });
+    expect(Object.values(result.fields)).toEqual(Array(5).fill("drop"));
+  });
+
+  it("drops fields configured to be hashed when PII_HASH_SECRET is not set", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const result = getPiiPolicy({
+      PII_POLICY: '{"userEntry.userID": "hash", "computerName": "mask"}',
+    });
+    expect(result.fields).toEqual({ "userEntry.userID": "drop", computerName: "mask" });
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("PII_HASH_SECRET"));
+  });
+});
+
+describe("redactPayload", () => {
+  it("masks, drops and hashes fields without changing the input", async () => {
+    const redacted = await redactPayload(
+      PAYLOAD,
+      policy({
+        computerName: "mask",
+        "userEntry.department": "drop",
+        "userEntry.userID": "hash",
+      }),
+    );
+    expect(redacted).toEqual({
+      event: PAYLOAD.event,
+      serialNumber: PAYLOAD.serialNumber,
+      computerName: "J•••",
+      userEntry: { userID: expect.stringMatching(/^hash:[0-9a-f]{16}$/), assetTag: "A-1234" },
+    });
+    expect(PAYLOAD.userEntry.department).toBe("Finance");
+  });
+
+  it("hashes equal values to equal digests that depend on the secret", async () => {
+    const fields: PiiPolicy["fields"] = { "userEntry.userID": "hash" };
+    const first = await redactPayload(PAYLOAD, policy(fields));
+    const second = await redactPayload(PAYLOAD, policy(fields));
+    const otherSecret = await redactPayload(PAYLOAD, policy(fields, "other-secret"));
+    expect(second.userEntry.userID).toBe(first.userEntry.userID);
+    expect(otherSecret.userEntry.userID).not.toBe(first.userEntry.userID);
+  });
+
+  it("does not hash hashed values again", async () => {
+    const fields: PiiPolicy["fields"] = { "userEntry.userID": "hash" };
+    const once = await redactPayload(PAYLOAD, policy(fields));
+    const twice = await redactPayload(once, policy(fields));
+    expect(twice.userEntry.userID).toBe(once.userEntry.userID);
+  });
+
+  it("drops fields to be hashed when there is no secret", async () => {
+    const redacted = await redactPayload(PAYLOAD, policy({ "userEntry.userID": "hash" }, null));
+    expect(redacted.userEntry).toEqual({ department: "Finance", assetTag: "A-1234" });
+  });
+
+  it("leaves missing fields, empty strings and non-string values alone", async () => {
+    const fields: PiiPolicy["fields"] = {
+      computerName: "mask",
+      "userEntry.userID": "hash",
+      "userEntry.assetTag": "mask",
+    };
+    const payload = { computerName: "", userEntry: "not an object" };
+    expect(await redactPayload(payload, policy(fields))).toEqual(payload);
+    expect(await redactPayload({ computerName: 42 }, policy(fields))).toEqual({ computerName: 42 });
+  });
+});
+
+describe("redactRawBody", () => {
+  it("redacts bodies that parse and withholds the rest", async () => {
+    const fields: PiiPolicy["fields"] = { computerName: "drop" };
+    const redacted = await redactRawBody(JSON.stringify(PAYLOAD), policy(fields));
+    expect(JSON.parse(redacted)).not.toHaveProperty("computerName");
+    expect(await redactRawBody('{"computerName": "Jane', policy(fields))).toMatch(/^\(withheld/);
+    expect(await redactRawBody('"just a string"', policy(fields))).toBe('"just a string"');
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Redaction of personal data in webhook payloads
+ *
+ * PII_POLICY maps personal payload fields to a redaction method: "hash"
+ * (a keyed SHA-256 digest, so values can still be told apart and counted),
+ * "mask" (only the first character is kept) or "drop". With PII_REDACTION
+ * set to "serve" (the default), events are stored in clear and redacted
+ * whenever they are served to anyone but an admin; with "store", they are
+ * redacted before they are stored and nobody sees the clear values again.
+ */
+
+import type { RejectedPayload, StoredEvent } from "./types";
+
+export type RedactionMethod = "hash" | "mask" | "drop";
+
+/** Payload fields that can hold personal data, as dot paths */
+export type PiiField =
+  | "computerName"
+  | "userEntry.userID"
+  | "userEntry.department"
+  | "userEntry.computerName"
+  | "userEntry.assetTag";
+
+const PII_FIELDS: readonly PiiField[] = [
+  "computerName",
+  "userEntry.userID",
+  "userEntry.department",
+  "userEntry.computerName",
+  "userEntry.assetTag",
+];
+
+const REDACTION_METHODS: readonly RedactionMethod[] = ["hash", "mask", "drop"];
+
+export interface PiiPolicy {
+  fields: Partial<Record<PiiField, RedactionMethod>>;
+  redactAt: "serve" | "store";
+  /** Key for hashed values; without it, "hash" fields are dropped */
+  hashSecret: string | null;
+}
+
+interface PiiEnv {
+  PII_POLICY?: string;
+  PII_REDACTION?: string;
+  PII_HASH_SECRET?: string;
+}
+
+/**
+ * Internal header the Worker sets on dashboard room requests made for
+ * users who may not see clear values
+ */
+export const PII_ACCESS_HEADER = "X-PII-Access";
+
+/** Shown instead of quarantined bodies that cannot be parsed, and therefore not redacted */
+const WITHHELD_BODY = "(withheld: the body is not valid JSON and may contain personal data)";
+
+/** Hashed values look like "hash:1a2b3c4d5e6f7a8b" and are never hashed twice */
+const HASHED_VALUE = /^hash:[0-9a-f]{16}$/;
+
+const MASK = "•••";
+
+/** Read the policy from the environment; invalid entries are ignored and logged */
+export function getPiiPolicy(env: PiiEnv): PiiPolicy {
+  const policy: PiiPolicy = {
+    fields: {},
+    redactAt: env.PII_REDACTION === "store" ? "store" : "serve",
+    hashSecret: env.PII_HASH_SECRET || null,
+  };
+  if (!env.PII_POLICY) return policy;
+
+  let fields: Record<string, unknown>;
+  try {
+    fields = JSON.parse(env.PII_POLICY) as Record<string, unknown>;
+  } catch {
+    // Failing open would serve personal data in clear, so drop every field instead
+    console.error("PII_POLICY is not valid JSON; dropping all personal fields");
+    for (const field of PII_FIELDS) policy.fields[field] = "drop";
+    return policy;
+  }
+
+  for (const [field, method] of Object.entries(fields)) {
+    if (
+      PII_FIELDS.includes(field as PiiField) &&
+      REDACTION_METHODS.includes(method as RedactionMethod)
+    ) {
+      policy.fields[field as PiiField] = method as RedactionMethod;
+    } else {
+      console.error(`PII_POLICY: ignoring ${JSON.stringify(field)}: ${JSON.stringify(method)}`);
+    }
+  }
+
+  // An unkeyed digest of a user ID can be reversed by hashing likely values
+  const hashed = Object.entries(policy.fields).filter(([, method]) => method === "hash");
+  if (hashed.length > 0 && !policy.hashSecret) {
+    console.error("PII_HASH_SECRET is not set; dropping fields configured to be hashed");
+    for (const [field] of hashed) policy.fields[field as PiiField] = "drop";
+  }
+  return policy;
+}
+
+/** Whether events have to be redacted when they are served to non-admins */
+export function needsServeRedaction(policy: PiiPolicy): boolean {
+  return policy.redactAt === "serve" && Object.keys(policy.fields).length > 0;
+}
+
+/** Whether the policy redacts a field, so non-admins may not filter by it either */
+export function isRedactedField(policy: PiiPolicy, field: PiiField): boolean {
+  return policy.fields[field] !== undefined;
+}
+
+async function hashValue(value: string, secret: string): Promise<string> {
+  if (HASHED_VALUE.test(value)) return value;
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const digest = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(value));
+
+  const hex = Array.from(new Uint8Array(digest).slice(0, 8), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+  return `hash:${hex}`;
+}
+
+/** Copy of a payload with the policy applied; the input is left untouched */
+export async function redactPayload<P extends object>(payload: P, policy: PiiPolicy): Promise<P> {
+  const redacted = structuredClone(payload) as Record<string, unknown>;
+
+  for (const [field, method] of Object.entries(policy.fields) as [PiiField, RedactionMethod][]) {
+    const path = field.split(".");
+    const key = path.pop()!;
+    let parent: unknown = redacted;
+    for (const segment of path) {
+      parent =
+        parent !== null && typeof parent === "object"
+          ? (parent as Record<string, unknown>)[segment]
+          : undefined;
+    }
+    if (parent === null || typeof parent !== "object" || !Object.hasOwn(parent, key)) continue;
+
+    const container = parent as Record<string, unknown>;
+    const value = container[key];
+    if (method === "drop" || (method === "hash" && !policy.hashSecret)) {
+      delete container[key];
+    } else if (typeof value === "string" && value) {
+      container[key] =
+        method === "hash" && policy.hashSecret
+          ? await hashValue(value, policy.hashSecret)
+          : `${value.slice(0, 1)}${MASK}`;
+    }
+  }
+
+  return redacted as P;
+}
+
+export async function redactEvent<E extends StoredEvent>(event: E, policy: PiiPolicy): Promise<E> {
+  return { ...event, payload: await redactPayload(event.payload, policy) };
+}
+
+/** Quarantined bodies are redacted if they parse; otherwise they are withheld */
+export async function redactRawBody(body: string, policy: PiiPolicy): Promise<string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return WITHHELD_BODY;
+  }
+  if (parsed === null || typeof parsed !== "object") return body;
+  return JSON.stringify(await redactPayload(parsed, policy));
+}
+
+export async function redactRejected(
+  rejected: RejectedPayload,
+  policy: PiiPolicy,
+): Promise<RejectedPayload> {
+  return { ...rejected, body: await redactRawBody(rejected.body, policy) };
+}
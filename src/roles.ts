@@ -0,0 +1,84 @@
+/**
+ * Roles of dashboard users, derived from their Cloudflare Access identity
+ *
+ * ADMIN_ACCESS and OPERATOR_ACCESS are JSON arrays of rules in the same
+ * format as TENANT_ACCESS: an email address, an email domain
+ * ("@example.com") or an Access group ("group:IT Admins"). Identities that
+ * match neither list are viewers. Without Access there is no identity to
+ * check, so every request is handled as an admin. Service tokens carry
+ * scopes instead of a role; the router checks those (see index.ts).
+ */
+
+import { matchesAnyRule, type AccessClaims } from "./tenants";
+import type { Role, ServiceToken } from "./types";
+
+interface RoleEnv {
+  ADMIN_ACCESS?: string;
+  OPERATOR_ACCESS?: string;
+}
+
+/** The user behind a dashboard or API request */
+export interface Identity {
+  /** Verified Access claims; null when Access is not configured */
+  claims: AccessClaims | null;
+  role: Role;
+  /** Set when the request authenticated with a service token instead of Access */
+  serviceToken?: ServiceToken;
+}
+
+const ROLE_RANKS: Record<Role, number> = { viewer: 0, operator: 1, admin: 2 };
+
+/** Whether a role rule variable matches; invalid JSON matches nobody */
+function matchesRoleRules(env: RoleEnv, name: keyof RoleEnv, claims: AccessClaims): boolean {
+  const rulesVar = env[name];
+  if (!rulesVar) return false;
+
+  let rules: unknown;
+  try {
+    rules = JSON.parse(rulesVar);
+  } catch {
+    console.error(`${name} is not valid JSON; ignoring it`);
+    return false;
+  }
+  return matchesAnyRule(rules, claims);
+}
+
+export function getIdentity(env: RoleEnv, claims: AccessClaims | null): Identity {
+  if (!claims) return { claims: null, role: "admin" };
+
+  let role: Role = "viewer";
+  if (matchesRoleRules(env, "ADMIN_ACCESS", claims)) {
+    role = "admin";
+  } else if (matchesRoleRules(env, "OPERATOR_ACCESS", claims)) {
+    role = "operator";
+  }
+  return { claims, role };
+}
+
+/** Service tokens with the admin scope act as admins; all others only read */
+export function getServiceTokenIdentity(token: ServiceToken): Identity {
+  return {
+    claims: null,
+    role: token.scopes.includes("admin") ? "admin" : "viewer",
+    serviceToken: token,
+  };
+}
+
+/** Whether an identity has `role` or a higher one */
+export function hasRole(identity: Identity, role: Role): boolean {
+  return ROLE_RANKS[identity.role] >= ROLE_RANKS[role];
+}
+
+/**
+ * Personal data is only revealed to admins that Access vouches for, so
+ * deployments without Access and service tokens get redacted values
+ */
+export function seesPersonalData(identity: Identity): boolean {
+  return identity.claims !== null && identity.role === "admin";
+}
+
+/** Name recorded for actions taken by an identity, e.g. device erasures */
+export function describeIdentity(identity: Identity): string | null {
+  if (identity.serviceToken) return `service token "${identity.serviceToken.name}"`;
+  return identity.claims?.email ?? identity.claims?.sub ?? null;
+}
@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+import {
+  FINISHED_WEBHOOK_SCHEMA,
+  GENERIC_WEBHOOK_SCHEMA,
+  STARTED_WEBHOOK_SCHEMA,
+  getEventSchema,
+  getUnknownFields,
+  getWebhookJsonSchema,
+  validateField,
+  type FieldSchema,
+} from "./schema";
+import { validateWebhookPayload, type ValidationIssue } from "./types";
+
+const STARTED = {
+  name: "Started",
+  event: "com.jamf.setupmanager.started",
+  timestamp: "2025-01-31T09:30:00Z",
+  started: "2025-01-31T09:30:00Z",
+  modelName: "MacBook Pro",
+  modelIdentifier: "Mac15,3",
+  macOSBuild: "24A335",
+  macOSVersion: "15.0",
+  serialNumber: "C02XK1JKJG5J",
+  setupManagerVersion: "2.0.0",
+};
+
+const FINISHED = {
+  ...STARTED,
+  name: "Finished",
+  event: "com.jamf.setupmanager.finished",
+  timestamp: "2025-01-31T09:45:00Z",
+  finished: "2025-01-31T09:45:00Z",
+  duration: 900,
+  enrollmentActions: [
+    { label: "Install Chrome", status: "finished" },
+    { label: "Install Slack", status: "failed" },
+  ],
+};
+
+function validate(value: unknown, schema: FieldSchema): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateField(value, schema, "", issues);
+  return issues;
+}
+
+describe("getEventSchema", () => {
+  it("returns the registry schema for known event types", () => {
+    expect(getEventSchema("com.jamf.setupmanager.started")).toBe(STARTED_WEBHOOK_SCHEMA);
+    expect(getEventSchema("com.jamf.setupmanager.finished")).toBe(FINISHED_WEBHOOK_SCHEMA);
+  });
+
+  it("returns the generic schema for other Setup Manager event types", () => {
+    expect(getEventSchema("com.jamf.setupmanager.rebooted")).toBe(GENERIC_WEBHOOK_SCHEMA);
+  });
+
+  it("returns null for anything else", () => {
+    expect(getEventSchema("com.jamf.setupmanager.")).toBeNull();
+    expect(getEventSchema("com.example.started")).toBeNull();
+    expect(getEventSchema("comXjamfXsetupmanagerXstarted")).toBeNull();
+    expect(getEventSchema(42)).toBeNull();
+    expect(getEventSchema("toString")).toBeNull();
+  });
+});
+
+describe("validateWebhookPayload", () => {
+  it("accepts valid Started and Finished payloads", () => {
+    expect(validateWebhookPayload(STARTED)).toEqual({ valid: true, issues: [] });
+    expect(validateWebhookPayload(FINISHED)).toEqual({ valid: true, issues: [] });
+  });
+
+  it("reports every issue with its path, and the first one as the error", () => {
+    const { modelName: _, ...payload } = FINISHED;
+    const result = validateWebhookPayload({
+      ...payload,
+      duration: -1,
+      enrollmentActions: [{ label: "Install Chrome", status: "skipped" }],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe("Missing required field: modelName");
+    expect(result.issues).toEqual([
+      { path: "modelName", code: "required", message: "Missing required field: modelName" },
+      {
+        path: "duration",
+        code: "invalid_value",
+        message: "duration must be a non-negative number",
+      },
+      {
+        path: "enrollmentActions[0].status",
+        code: "invalid_value",
+        message: 'enrollmentActions[0].status must be "finished" or "failed"',
+      },
+    ]);
+  });
+
+  it("rejects whitespace-only strings and mismatched names", () => {
+    expect(validateWebhookPayload({ ...STARTED, serialNumber: "  " }).issues).toEqual([
+      {
+        path: "serialNumber",
+        code: "invalid_type",
+        message: "serialNumber must be a non-empty string",
+      },
+    ]);
+    expect(validateWebhookPayload({ ...STARTED, name: "Finished" }).issues).toEqual([
+      { path: "name", code: "invalid_value", message: 'name must be "Started"' },
+    ]);
+  });
+
+  it("accepts any timestamp Date can parse", () => {
+    for (const timestamp of ["2025-01-31T09:30:00+01:00", "2025-01-31T09:30:00", "2025-01-31"]) {
+      expect(validateWebhookPayload({ ...STARTED, timestamp }).valid, timestamp).toBe(true);
+    }
+    expect(validateWebhookPayload({ ...STARTED, timestamp: "yesterday" }).issues).toEqual([
+      {
+        path: "timestamp",
+        code: "invalid_format",
+        message: "timestamp must be an ISO 8601 timestamp",
+      },
+    ]);
+  });
+
+  it("checks fields shared with known events on other Setup Manager events", () => {
+    const rebooted = { event: "com.jamf.setupmanager.rebooted", timestamp: STARTED.timestamp };
+    expect(validateWebhookPayload({ ...rebooted, serialNumber: "C02XK1JKJG5J" }).valid).toBe(
+      true,
+    );
+    expect(validateWebhookPayload({ ...rebooted, serialNumber: 42 }).issues).toEqual([
+      {
+        path: "serialNumber",
+        code: "invalid_type",
+        message: "serialNumber must be a non-empty string",
+      },
+    ]);
+  });
+
+  it("rejects unknown event types but still checks the shared fields", () => {
+    const payload = { ...STARTED, event: "com.example.started", started: "" };
+    const result = validateWebhookPayload(payload);
+    expect(result.issues.map((issue) => issue.path)).toEqual(["event", "started"]);
+    expect(result.error).toBe("Invalid event type");
+    expect(validateWebhookPayload({ ...STARTED, event: undefined }).error).toBe(
+      "Missing required field: event",
+    );
+  });
+
+  it("rejects non-objects and prototype pollution keys at any depth", () => {
+    expect(validateWebhookPayload([STARTED]).error).toBe("Payload must be a non-null object");
+    expect(validateWebhookPayload(JSON.parse('{"__proto__": {}}')).issues).toEqual([
+      { path: "", code: "forbidden_key", message: "Payload contains forbidden property names" },
+    ]);
+    const nested = JSON.parse(
+      JSON.stringify({ ...FINISHED, userEntry: { department: "IT" } }).replace(
+        '"department"',
+        '"constructor"',
+      ),
+    );
+    expect(validateWebhookPayload(nested).issues).toEqual([
+      {
+        path: "userEntry",
+        code: "forbidden_key",
+        message: "userEntry contains forbidden property names",
+      },
+    ]);
+  });
+});
+
+describe("validateField", () => {
+  it("checks patterns", () => {
+    const schema: FieldSchema = { type: "string", pattern: "^[A-Z]+$" };
+    expect(validate("ABC", schema)).toEqual([]);
+    expect(validate("abc", schema)).toEqual([
+      { path: "", code: "invalid_format", message: "Payload must match ^[A-Z]+$" },
+    ]);
+  });
+
+  it("rejects non-finite numbers and non-arrays", () => {
+    expect(validate(NaN, { type: "number" })[0].code).toBe("invalid_type");
+    expect(validate("1", { type: "number" })[0].code).toBe("invalid_type");
+    expect(validate({}, { type: "array", items: { type: "string" } })[0].code).toBe(
+      "invalid_type",
+    );
+  });
+});
+
+describe("getUnknownFields", () => {
+  it("lists fields the event type's schema does not describe", () => {
+    expect(getUnknownFields({ ...STARTED, batteryLevel: 80, locale: "de_CH" })).toEqual([
+      ["batteryLevel", 80],
+      ["locale", "de_CH"],
+    ]);
+    expect(getUnknownFields(FINISHED)).toEqual([]);
+  });
+
+  it("uses the generic schema for other and invalid event types", () => {
+    const rebooted = { event: "com.jamf.setupmanager.rebooted", computerName: "Mac", extra: 1 };
+    expect(getUnknownFields(rebooted)).toEqual([["extra", 1]]);
+    expect(getUnknownFields({ event: "com.example.started", duration: 1 })).toEqual([
+      ["duration", 1],
+    ]);
+  });
+});
+
+describe("getWebhookJsonSchema", () => {
+  it("exports non-empty strings, timestamps and the event type pattern", () => {
+    const schema = getWebhookJsonSchema() as {
+      oneOf: { properties: Record<string, Record<string, unknown>>; not?: unknown }[];
+    };
+    const [started, , generic] = schema.oneOf;
+    expect(started.properties.serialNumber).toEqual({
+      type: "string",
+      minLength: 1,
+      pattern: "\\S",
+    });
+    expect(started.properties.timestamp).toMatchObject({ format: "date-time" });
+    expect(generic.properties.event.pattern).toBe("^com\\.jamf\\.setupmanager\\..+");
+    expect(generic.not).toEqual({
+      properties: {
+        event: { enum: ["com.jamf.setupmanager.started", "com.jamf.setupmanager.finished"] },
+      },
+    });
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * Declarative schema of Setup Manager webhook payloads
+ * The single source for the payload types in types.ts, the checks run by
+ * validateWebhookPayload, and the JSON Schema served at /api/schema.
+ */
+
+import type { ValidationIssue } from "./types";
+
+interface StringField {
+  type: "string";
+  description?: string;
+  /** Reject empty and whitespace-only strings */
+  nonEmpty?: boolean;
+  /** ECMAScript regular expression, used as is by the validator and in JSON Schema */
+  pattern?: string;
+  /**
+   * Any timestamp Date can parse; exported as the stricter JSON Schema
+   * "date-time" format, which documents what senders should use
+   */
+  format?: "date-time";
+  const?: string;
+  enum?: readonly string[];
+}
+
+interface NumberField {
+  type: "number";
+  description?: string;
+  minimum?: number;
+}
+
+interface ArrayField {
+  type: "array";
+  description?: string;
+  items: FieldSchema;
+}
+
+export interface ObjectField {
+  type: "object";
+  description?: string;
+  properties: Readonly<Record<string, FieldSchema>>;
+  required: readonly string[];
+}
+
+export type FieldSchema = StringField | NumberField | ArrayField | ObjectField;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/** TypeScript type of the values a field schema accepts */
+export type Infer<F> = F extends { const: infer C extends string }
+  ? C
+  : F extends { enum: readonly (infer E extends string)[] }
+    ? E
+    : F extends { type: "string" }
+      ? string
+      : F extends { type: "number" }
+        ? number
+        : F extends { type: "array"; items: infer I }
+          ? Infer<I>[]
+          : F extends ObjectField
+            ? InferObject<F>
+            : never;
+
+type InferObject<O extends ObjectField> = Simplify<
+  {
+    -readonly [K in keyof O["properties"] & O["required"][number]]: Infer<O["properties"][K]>;
+  } & {
+    -readonly [K in Exclude<keyof O["properties"], O["required"][number]>]?: Infer<
+      O["properties"][K]
+    >;
+  }
+>;
+
+const NON_EMPTY = { type: "string", nonEmpty: true } as const;
+const TIMESTAMP = { type: "string", nonEmpty: true, format: "date-time" } as const;
+const OPTIONAL_STRING = { type: "string" } as const;
+const NON_NEGATIVE = { type: "number", minimum: 0 } as const;
+
+export const ENROLLMENT_ACTION_SCHEMA = {
+  type: "object",
+  description: "An enrollment action run by Setup Manager",
+  properties: {
+    label: NON_EMPTY,
+    status: { type: "string", enum: ["finished", "failed"] },
+  },
+  required: ["label", "status"],
+} as const satisfies ObjectField;
+
+export const USER_ENTRY_SCHEMA = {
+  type: "object",
+  description: "Values entered by the user during enrollment",
+  properties: {
+    department: OPTIONAL_STRING,
+    computerName: OPTIONAL_STRING,
+    userID: OPTIONAL_STRING,
+    assetTag: OPTIONAL_STRING,
+  },
+  required: [],
+} as const satisfies ObjectField;
+
+/** Fields sent with every event */
+const BASE_PROPERTIES = {
+  timestamp: { ...TIMESTAMP, description: "Time the webhook was sent (ISO 8601)" },
+  started: { ...TIMESTAMP, description: "Time Setup Manager started (ISO 8601)" },
+  modelName: NON_EMPTY,
+  modelIdentifier: NON_EMPTY,
+  macOSBuild: NON_EMPTY,
+  macOSVersion: NON_EMPTY,
+  serialNumber: NON_EMPTY,
+  setupManagerVersion: NON_EMPTY,
+  jamfProVersion: OPTIONAL_STRING,
+  jssID: OPTIONAL_STRING,
+} as const;
+
+const BASE_REQUIRED = [
+  "name",
+  "event",
+  "timestamp",
+  "started",
+  "modelName",
+  "modelIdentifier",
+  "macOSBuild",
+  "macOSVersion",
+  "serialNumber",
+  "setupManagerVersion",
+] as const;
+
+/** Fields shared by all events, checked when the event type is unknown */
+export const BASE_WEBHOOK_SCHEMA = {
+  type: "object",
+  properties: BASE_PROPERTIES,
+  required: BASE_REQUIRED.filter((field) => field !== "name" && field !== "event"),
+} as const satisfies ObjectField;
+
+export const STARTED_WEBHOOK_SCHEMA = {
+  type: "object",
+  description: "Sent when Setup Manager starts",
+  properties: {
+    name: { type: "string", const: "Started" },
+    event: { type: "string", const: "com.jamf.setupmanager.started" },
+    ...BASE_PROPERTIES,
+  },
+  required: BASE_REQUIRED,
+} as const satisfies ObjectField;
+
+export const FINISHED_WEBHOOK_SCHEMA = {
+  type: "object",
+  description: "Sent when Setup Manager finishes",
+  properties: {
+    name: { type: "string", const: "Finished" },
+    event: { type: "string", const: "com.jamf.setupmanager.finished" },
+    ...BASE_PROPERTIES,
+    duration: { ...NON_NEGATIVE, description: "Enrollment duration in seconds" },
+    finished: { ...TIMESTAMP, description: "Time Setup Manager finished (ISO 8601)" },
+    computerName: OPTIONAL_STRING,
+    userEntry: USER_ENTRY_SCHEMA,
+    enrollmentActions: { type: "array", items: ENROLLMENT_ACTION_SCHEMA },
+    uploadThroughput: { ...NON_NEGATIVE, description: "Upload throughput in bits per second" },
+    downloadThroughput: { ...NON_NEGATIVE, description: "Download throughput in bits per second" },
+  },
+  required: [...BASE_REQUIRED, "duration", "finished"],
+} as const satisfies ObjectField;
+
+/**
+ * Event type registry: the strictly validated payload schema of each
+ * event type this version knows
+ */
+export const WEBHOOK_SCHEMAS = {
+  "com.jamf.setupmanager.started": STARTED_WEBHOOK_SCHEMA,
+  "com.jamf.setupmanager.finished": FINISHED_WEBHOOK_SCHEMA,
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_SCHEMAS;
+
+/** Prefix shared by all Setup Manager event types */
+const EVENT_TYPE_PREFIX = "com.jamf.setupmanager.";
+
+/** Any event type with the prefix and at least one more character */
+const EVENT_TYPE_PATTERN = `^${EVENT_TYPE_PREFIX.replace(/\./g, "\\.")}.+`;
+
+/**
+ * Schema of Setup Manager events that are not in the registry, such as event
+ * types added by a newer Setup Manager release. They are stored as received;
+ * fields shared with known events are checked only when present.
+ */
+export const GENERIC_WEBHOOK_SCHEMA = {
+  type: "object",
+  description: "Any other Setup Manager event, stored as received",
+  properties: {
+    ...BASE_PROPERTIES,
+    name: OPTIONAL_STRING,
+    event: {
+      type: "string",
+      pattern: EVENT_TYPE_PATTERN,
+      description: `Event type, starting with "${EVENT_TYPE_PREFIX}"`,
+    },
+    computerName: OPTIONAL_STRING,
+    userEntry: USER_ENTRY_SCHEMA,
+  },
+  required: ["event", "timestamp", "serialNumber"],
+} as const satisfies ObjectField;
+
+export function isKnownEventType(event: unknown): event is WebhookEventType {
+  return typeof event === "string" && Object.hasOwn(WEBHOOK_SCHEMAS, event);
+}
+
+/**
+ * Schema to validate a payload with the given event type against: its
+ * registry entry, the generic schema for other Setup Manager events, or
+ * null if the event type is not a Setup Manager event at all
+ */
+export function getEventSchema(event: unknown): ObjectField | null {
+  if (isKnownEventType(event)) return WEBHOOK_SCHEMAS[event];
+  if (typeof event === "string" && new RegExp(EVENT_TYPE_PATTERN).test(event)) {
+    return GENERIC_WEBHOOK_SCHEMA;
+  }
+  return null;
+}
+
+/**
+ * Payload fields not described by the schema of the payload's event type,
+ * e.g. fields added by a newer Setup Manager release
+ */
+export function getUnknownFields(payload: object): [string, unknown][] {
+  const schema = getEventSchema((payload as Record<string, unknown>).event) ?? GENERIC_WEBHOOK_SCHEMA;
+  return Object.entries(payload).filter(([key]) => !Object.hasOwn(schema.properties, key));
+}
+
+/** Property names that could enable prototype pollution if passed through */
+const DANGEROUS_KEYS: readonly string[] = ["__proto__", "constructor", "prototype"];
+
+export function hasDangerousKeys(obj: object): boolean {
+  return Object.keys(obj).some((key) => DANGEROUS_KEYS.includes(key));
+}
+
+function isValidTimestamp(value: string): boolean {
+  return !isNaN(new Date(value).getTime());
+}
+
+function describeNumber(schema: NumberField): string {
+  if (schema.minimum === 0) return "a non-negative number";
+  if (schema.minimum !== undefined) return `a number of at least ${schema.minimum}`;
+  return "a number";
+}
+
+function quoted(values: readonly string[]): string {
+  return values.map((v) => `"${v}"`).join(" or ");
+}
+
+/**
+ * Check `value` against a field schema, adding a problem for every
+ * mismatch to `issues`. Properties not in the schema are allowed.
+ */
+export function validateField(
+  value: unknown,
+  schema: FieldSchema,
+  path: string,
+  issues: ValidationIssue[],
+): void {
+  const name = path || "Payload";
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string" || (schema.nonEmpty && value.trim().length === 0)) {
+        const expected = schema.nonEmpty ? "a non-empty string" : "a string";
+        issues.push({ path, code: "invalid_type", message: `${name} must be ${expected}` });
+      } else if (schema.const !== undefined && value !== schema.const) {
+        issues.push({ path, code: "invalid_value", message: `${name} must be "${schema.const}"` });
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({
+          path,
+          code: "invalid_value",
+          message: `${name} must be ${quoted(schema.enum)}`,
+        });
+      } else if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        issues.push({
+          path,
+          code: "invalid_format",
+          message: `${name} must match ${schema.pattern}`,
+        });
+      } else if (schema.format === "date-time" && !isValidTimestamp(value)) {
+        issues.push({
+          path,
+          code: "invalid_format",
+          message: `${name} must be an ISO 8601 timestamp`,
+        });
+      }
+      return;
+
+    case "number": {
+      const expected = describeNumber(schema);
+      if (typeof value !== "number" || !isFinite(value)) {
+        issues.push({ path, code: "invalid_type", message: `${name} must be ${expected}` });
+      } else if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push({ path, code: "invalid_value", message: `${name} must be ${expected}` });
+      }
+      return;
+    }
+
+    case "array":
+      if (!Array.isArray(value)) {
+        issues.push({ path, code: "invalid_type", message: `${name} must be an array` });
+        return;
+      }
+      value.forEach((item, i) => validateField(item, schema.items, `${path}[${i}]`, issues));
+      return;
+
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ path, code: "invalid_type", message: `${name} must be an object` });
+        return;
+      }
+      // Don't look any further into objects with prototype pollution keys
+      if (hasDangerousKeys(value)) {
+        issues.push({
+          path,
+          code: "forbidden_key",
+          message: `${name} contains forbidden property names`,
+        });
+        return;
+      }
+
+      const obj = value as Record<string, unknown>;
+      for (const [key, field] of Object.entries(schema.properties)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (obj[key] === undefined) {
+          if (schema.required.includes(key)) {
+            issues.push({
+              path: fieldPath,
+              code: "required",
+              message: `Missing required field: ${fieldPath}`,
+            });
+          }
+          continue;
+        }
+        validateField(obj[key], field, fieldPath, issues);
+      }
+      return;
+    }
+  }
+}
+
+/** Convert a field schema to JSON Schema (draft 2020-12) */
+function toJsonSchema(schema: FieldSchema): Record<string, unknown> {
+  const description = schema.description ? { description: schema.description } : {};
+
+  switch (schema.type) {
+    case "string": {
+      // A non-empty string needs a non-whitespace character besides any other pattern
+      const patterns = [schema.nonEmpty ? "\\S" : null, schema.pattern ?? null].filter(
+        (pattern) => pattern !== null,
+      );
+      return {
+        type: "string",
+        ...description,
+        ...(schema.nonEmpty ? { minLength: 1 } : {}),
+        ...(patterns.length === 1 ? { pattern: patterns[0] } : {}),
+        ...(patterns.length > 1 ? { allOf: patterns.map((pattern) => ({ pattern })) } : {}),
+        ...(schema.format ? { format: schema.format } : {}),
+        ...(schema.const !== undefined ? { const: schema.const } : {}),
+        ...(schema.enum ? { enum: schema.enum } : {}),
+      };
+    }
+    case "number":
+      return {
+        type: "number",
+        ...description,
+        ...(schema.minimum !== undefined ? { minimum: schema.minimum } : {}),
+      };
+    case "array":
+      return { type: "array", ...description, items: toJsonSchema(schema.items) };
+    case "object":
+      return {
+        type: "object",
+        ...description,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, field]) => [key, toJsonSchema(field)]),
+        ),
+        required: schema.required,
+      };
+  }
+}
+
+/** JSON Schema of all webhook payloads, as served at /api/schema */
+export function getWebhookJsonSchema(): Record<string, unknown> {
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: "Setup Manager webhook",
+    oneOf: [
+      ...Object.values(WEBHOOK_SCHEMAS).map(toJsonSchema),
+      {
+        ...toJsonSchema(GENERIC_WEBHOOK_SCHEMA),
+        not: { properties: { event: { enum: Object.keys(WEBHOOK_SCHEMAS) } } },
+      },
+    ],
+  };
+}
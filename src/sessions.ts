@@ -0,0 +1,110 @@
+/**
+ * Enrollment session correlation
+ * Pairs Started and Finished webhooks of the same enrollment run so the
+ * dashboard can reason about "this Mac's enrollment" instead of two events.
+ * Shared by the Worker (/api/sessions) and the dashboard UI.
+ */
+
+import { isKnownEvent, type EnrollmentSession, type SessionState, type StoredEvent } from "./types";
+
+/**
+ * Builds the session identifier for a device's enrollment run.
+ * The started timestamp is normalized so that equivalent ISO 8601 spellings
+ * (e.g. "Z" vs "+00:00") from the Started and Finished payloads still match.
+ */
+export function getSessionId(serialNumber: string, started: string): string {
+  const time = new Date(started).getTime();
+  const normalized = isNaN(time) ? started : new Date(time).toISOString();
+  return `${serialNumber}:${normalized}`;
+}
+
+/**
+ * Returns true if a finished event reports at least one failed enrollment action
+ */
+export function hasFailedActions(event: StoredEvent): boolean {
+  if (!isKnownEvent(event)) return false;
+  const payload = event.payload;
+  if (!("enrollmentActions" in payload) || !payload.enrollmentActions) return false;
+  return payload.enrollmentActions.some((a) => a.status === "failed");
+}
+
+function getStartedTime(session: EnrollmentSession): number {
+  const time = new Date(session.started).getTime();
+  return isNaN(time) ? session.lastUpdated : time;
+}
+
+/**
+ * Groups stored events into enrollment sessions, newest activity first.
+ * A session without a Finished event is "in-progress" unless a later
+ * session exists for the same serial number, in which case the earlier
+ * run was abandoned (e.g. the device was wiped and re-enrolled).
+ * Open sessions listed in `stalledSessionIds` are reported as "stalled".
+ * Events of types other than Started and Finished are not part of a session.
+ */
+export function correlateSessions(
+  events: StoredEvent[],
+  stalledSessionIds: ReadonlySet<string> = new Set(),
+): EnrollmentSession[] {
+  const sessions = new Map<string, EnrollmentSession>();
+
+  for (const event of events) {
+    if (!isKnownEvent(event)) continue;
+    const { serialNumber, started } = event.payload;
+    const sessionId = getSessionId(serialNumber, started);
+
+    let session = sessions.get(sessionId);
+    if (!session) {
+      session = {
+        sessionId,
+        serialNumber,
+        started,
+        state: "in-progress",
+        lastUpdated: event.timestamp,
+      };
+      sessions.set(sessionId, session);
+    }
+
+    // Keep the latest delivery if the same event was received more than once
+    if (event.payload.event === "com.jamf.setupmanager.started") {
+      if (!session.startedEvent || event.timestamp > session.startedEvent.timestamp) {
+        session.startedEvent = event;
+      }
+    } else if (!session.finishedEvent || event.timestamp > session.finishedEvent.timestamp) {
+      session.finishedEvent = event;
+    }
+
+    session.lastUpdated = Math.max(session.lastUpdated, event.timestamp);
+  }
+
+  // Latest started time per device, used to detect abandoned runs
+  const latestStartBySerial = new Map<string, number>();
+  for (const session of sessions.values()) {
+    const startedTime = getStartedTime(session);
+    const latest = latestStartBySerial.get(session.serialNumber);
+    if (latest === undefined || startedTime > latest) {
+      latestStartBySerial.set(session.serialNumber, startedTime);
+    }
+  }
+
+  for (const session of sessions.values()) {
+    session.state = getSessionState(
+      session,
+      getStartedTime(session) < (latestStartBySerial.get(session.serialNumber) ?? 0),
+      stalledSessionIds.has(session.sessionId),
+    );
+  }
+
+  return Array.from(sessions.values()).sort((a, b) => b.lastUpdated - a.lastUpdated);
+}
+
+function getSessionState(
+  session: EnrollmentSession,
+  superseded: boolean,
+  stalled: boolean,
+): SessionState {
+  if (session.finishedEvent) {
+    return hasFailedActions(session.finishedEvent) ? "finished-with-failures" : "finished";
+  }
+  if (superseded) return "abandoned";
+  return stalled ? "stalled" : "in-progress";
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from "./signature";
+
+const SECRET = "test-signing-secret";
+const NOW = Date.UTC(2025, 0, 1);
+const SECONDS = NOW / 1000;
+const NONCE = "n0nce-0123456789abcdef";
+const BODY = JSON.stringify({ event: "com.jamf.setupmanager.started", serialNumber: "TEST001" });
+
+async function sign(message: string, secret = SECRET): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const digest = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+interface Signed {
+  timestamp?: string;
+  nonce?: string;
+  body?: string;
+  secret?: string;
+  signature?: string;
+}
+
+/** Headers a sender would send for BODY, with any of the parts overridden */
+async function signedHeaders(overrides: Signed = {}): Promise<Headers> {
+  const { timestamp = String(SECONDS), nonce = NONCE, body = BODY, secret } = overrides;
+  const signature = overrides.signature ?? (await sign(`${timestamp}.${nonce}.${body}`, secret));
+  return new Headers({
+    [SIGNATURE_HEADER]: `sha256=${signature}`,
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+  });
+}
+
+function verify(headers: Headers, body = BODY, now = NOW) {
+  return verifyWebhookSignature(headers, body, SECRET, 300, now);
+}
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a valid signature and returns when the nonce can be forgotten", async () => {
+    expect(await verify(await signedHeaders())).toEqual({
+      valid: true,
+      nonce: NONCE,
+      expiresAt: NOW + 300 * 1000,
+    });
+  });
+
+  it("accepts bare and uppercase hex digests", async () => {
+    const headers = await signedHeaders();
+    const hex = headers.get(SIGNATURE_HEADER)!.replace("sha256=", "");
+    headers.set(SIGNATURE_HEADER, hex.toUpperCase());
+    expect((await verify(headers)).valid).toBe(true);
+  });
+
+  it("rejects a modified body, a wrong secret or a signature over other parts", async () => {
+    const invalid = { valid: false, error: "Invalid signature" };
+    expect(await verify(await signedHeaders(), BODY.replace("TEST001", "TEST002"))).toEqual(
+      invalid,
+    );
+    expect(await verify(await signedHeaders({ secret: "other-secret" }))).toEqual(invalid);
+
+    // The nonce and timestamp are covered by the signature
+    const headers = await signedHeaders();
+    headers.set(NONCE_HEADER, "another-nonce-0123456789");
+    expect(await verify(headers)).toEqual(invalid);
+    const retimed = await signedHeaders();
+    retimed.set(TIMESTAMP_HEADER, String(SECONDS + 1));
+    expect(await verify(retimed)).toEqual(invalid);
+  });
+
+  it("rejects timestamps outside the tolerance in either direction", async () => {
+    const headers = await signedHeaders();
+    const outside = { valid: false, error: "Signature timestamp outside allowed window" };
+    expect((await verify(headers, BODY, NOW + 300 * 1000)).valid).toBe(true);
+    expect(await verify(headers, BODY, NOW + 301 * 1000)).toEqual(outside);
+    expect(await verify(headers, BODY, NOW - 301 * 1000)).toEqual(outside);
+  });
+
+  it("rejects missing headers and malformed values before checking the signature", async () => {
+    const cases: [Signed | null, string][] = [
+      [null, "Missing signature headers"],
+      [{ timestamp: "1735689600.5" }, "Invalid signature timestamp"],
+      [{ timestamp: "-1735689600" }, "Invalid signature timestamp"],
+      [{ nonce: "short" }, "Invalid signature nonce"],
+      [{ nonce: "has spaces in it, 0123456789" }, "Invalid signature nonce"],
+      [{ signature: "abc" }, "Malformed signature"],
+      [{ signature: "zz".repeat(32) }, "Malformed signature"],
+    ];
+    for (const [overrides, error] of cases) {
+      const headers = overrides ? await signedHeaders(overrides) : new Headers();
+      expect(await verify(headers), JSON.stringify(overrides)).toEqual({ valid: false, error });
+    }
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * HMAC-SHA256 webhook signature verification
+ *
+ * Senders sign `${timestamp}.${nonce}.${rawBody}` with the shared
+ * WEBHOOK_SIGNING_SECRET and send the result as hex in the signature header.
+ * The timestamp (Unix seconds) bounds how long a captured request stays
+ * usable; the nonce lets the dashboard room reject replays within that window.
+ */
+
+export const SIGNATURE_HEADER = "X-Setup-Manager-Signature";
+export const TIMESTAMP_HEADER = "X-Setup-Manager-Timestamp";
+export const NONCE_HEADER = "X-Setup-Manager-Nonce";
+
+/** Default allowed clock skew between sender and Worker (seconds) */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Nonces are opaque, but must be reasonably sized and header-safe */
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+export type SignatureResult =
+  | { valid: true; nonce: string; expiresAt: number }
+  | { valid: false; error: string };
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Verify the signature headers of a webhook request against its raw body.
+ * On success, returns the nonce and the time (ms) after which the request
+ * would be rejected as stale anyway, so the nonce can be forgotten then.
+ * Nonce uniqueness is checked by the caller.
+ */
+export async function verifyWebhookSignature(
+  headers: Headers,
+  rawBody: string,
+  secret: string,
+  toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  now = Date.now(),
+): Promise<SignatureResult> {
+  const signatureHeader = headers.get(SIGNATURE_HEADER);
+  const timestampHeader = headers.get(TIMESTAMP_HEADER);
+  const nonce = headers.get(NONCE_HEADER);
+
+  if (!signatureHeader || !timestampHeader || !nonce) {
+    return { valid: false, error: "Missing signature headers" };
+  }
+
+  if (!/^\d+$/.test(timestampHeader)) {
+    return { valid: false, error: "Invalid signature timestamp" };
+  }
+  const timestamp = parseInt(timestampHeader, 10) * 1000;
+  const tolerance = toleranceSeconds * 1000;
+  if (Math.abs(now - timestamp) > tolerance) {
+    return { valid: false, error: "Signature timestamp outside allowed window" };
+  }
+
+  if (!NONCE_PATTERN.test(nonce)) {
+    return { valid: false, error: "Invalid signature nonce" };
+  }
+
+  // Accept both "sha256=<hex>" and a bare hex digest
+  const signature = hexToBytes(signatureHeader.replace(/^sha256=/, ""));
+  if (!signature) {
+    return { valid: false, error: "Malformed signature" };
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"],
+  );
+
+  // crypto.subtle.verify compares in constant time
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    key,
+    signature,
+    encoder.encode(`${timestampHeader}.${nonce}.${rawBody}`),
+  );
+  if (!valid) {
+    return { valid: false, error: "Invalid signature" };
+  }
+
+  return { valid: true, nonce, expiresAt: timestamp + tolerance };
+}
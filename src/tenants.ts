@@ -0,0 +1,95 @@
+/**
+ * Tenant resolution and Access-based tenant authorization
+ *
+ * Each tenant gets its own DashboardRoom (and therefore its own SQLite
+ * storage). The default tenant serves the unprefixed /webhook, /api/* and
+ * /ws routes, so single-tenant deployments keep working unchanged.
+ */
+
+export const DEFAULT_TENANT = "main";
+
+/** Set by the Worker on every request to a room, so the room knows its tenant */
+export const TENANT_HEADER = "X-Dashboard-Tenant";
+
+/** Lowercase letters, digits and dashes; usable in URLs and room names */
+const TENANT_NAME_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+
+/** Identity claims of a validated Cloudflare Access token */
+export interface AccessClaims {
+  email?: string;
+  sub?: string;
+  /** Present when the identity provider passes group membership to Access */
+  groups?: (string | { id?: string; name?: string })[];
+}
+
+/** Names that would clash with routes under /webhook/ */
+const RESERVED_TENANT_NAMES = new Set(["validate"]);
+
+export function isValidTenantName(name: string): boolean {
+  return TENANT_NAME_PATTERN.test(name) && !RESERVED_TENANT_NAMES.has(name);
+}
+
+/**
+ * Configured tenants: the comma-separated TENANTS variable plus the default
+ * tenant. Unknown tenants are rejected so arbitrary URLs cannot create rooms.
+ */
+export function getTenants(tenantsVar: string | undefined): Set<string> {
+  const tenants = new Set([DEFAULT_TENANT]);
+  for (const name of (tenantsVar || "").split(",")) {
+    const tenant = name.trim();
+    if (isValidTenantName(tenant)) tenants.add(tenant);
+  }
+  return tenants;
+}
+
+/** Whether an Access rule entry matches the identity in `claims` */
+function matchesRule(rule: string, claims: AccessClaims): boolean {
+  const email = claims.email?.toLowerCase();
+
+  if (rule.startsWith("group:")) {
+    const group = rule.slice("group:".length);
+    return (claims.groups ?? []).some((g) =>
+      typeof g === "string" ? g === group : g.name === group || g.id === group,
+    );
+  }
+  if (rule.startsWith("@")) {
+    return !!email && email.endsWith(rule.toLowerCase());
+  }
+  return !!email && email === rule.toLowerCase();
+}
+
+/**
+ * Whether any entry of a parsed rule list matches the identity in `claims`;
+ * anything but an array of strings matches nobody
+ */
+export function matchesAnyRule(rules: unknown, claims: AccessClaims): boolean {
+  return (
+    Array.isArray(rules) &&
+    rules.some((rule) => typeof rule === "string" && matchesRule(rule, claims))
+  );
+}
+
+/**
+ * Check whether an Access identity may see a tenant.
+ * TENANT_ACCESS is a JSON object mapping tenant names to rules: an email
+ * address, an email domain ("@example.com") or an Access group
+ * ("group:MSP Admins"). Rules under "*" grant every tenant. Without
+ * TENANT_ACCESS (or without Access), every authenticated user sees every tenant.
+ */
+export function canAccessTenant(
+  tenantAccessVar: string | undefined,
+  claims: AccessClaims | null,
+  tenant: string,
+): boolean {
+  if (!tenantAccessVar || !claims) return true;
+
+  let tenantAccess: Record<string, unknown>;
+  try {
+    tenantAccess = JSON.parse(tenantAccessVar) as Record<string, unknown>;
+  } catch {
+    console.error("TENANT_ACCESS is not valid JSON; denying tenant access");
+    return false;
+  }
+
+  return [tenantAccess[tenant], tenantAccess["*"]].some((rules) => matchesAnyRule(rules, claims));
+}
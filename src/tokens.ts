@@ -0,0 +1,42 @@
+/**
+ * Webhook and service token helpers
+ * Tokens are random bearer secrets; the dashboard room only ever stores
+ * their SHA-256 hash, so a leaked database does not leak usable tokens.
+ */
+
+/** Prefix that makes webhook tokens recognizable in profiles and logs */
+const TOKEN_PREFIX = "smh_";
+
+/** Service tokens authenticate API clients instead of Cloudflare Access */
+const SERVICE_TOKEN_PREFIX = "smhs_";
+
+/** A prefixed token with 256 bits of randomness */
+function generateToken(prefix: string): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const encoded = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `${prefix}${encoded}`;
+}
+
+/** Generate a new webhook token */
+export function generateWebhookToken(): string {
+  return generateToken(TOKEN_PREFIX);
+}
+
+/** Generate a new service token */
+export function generateServiceToken(): string {
+  return generateToken(SERVICE_TOKEN_PREFIX);
+}
+
+/** Whether a bearer token is a service token rather than a webhook token */
+export function isServiceToken(token: string): boolean {
+  return token.startsWith(SERVICE_TOKEN_PREFIX);
+}
+
+/** Hex SHA-256 of a token, as stored in the token registries */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -1,263 +1,480 @@
 /**
- * TypeScript interfaces for Setup Manager webhook payloads
+ * TypeScript types for Setup Manager webhook payloads
  * with input validation utilities
  */
 
-export interface SetupManagerStartedWebhook {
-  name: "Started";
-  event: "com.jamf.setupmanager.started";
-  timestamp: string;
-  started: string;
-  modelName: string;
-  modelIdentifier: string;
-  macOSBuild: string;
-  macOSVersion: string;
-  serialNumber: string;
-  setupManagerVersion: string;
-  jamfProVersion?: string;
-  jssID?: string;
-}
+import {
+  BASE_WEBHOOK_SCHEMA,
+  ENROLLMENT_ACTION_SCHEMA,
+  FINISHED_WEBHOOK_SCHEMA,
+  GENERIC_WEBHOOK_SCHEMA,
+  STARTED_WEBHOOK_SCHEMA,
+  USER_ENTRY_SCHEMA,
+  getEventSchema,
+  hasDangerousKeys,
+  isKnownEventType,
+  validateField,
+  type Infer,
+} from './schema';
 
-export interface EnrollmentAction {
-  label: string;
-  status: "finished" | "failed";
-}
+// Payload types are derived from the declarative schema in schema.ts
 
-export interface UserEntry {
-  department?: string;
-  computerName?: string;
-  userID?: string;
-  assetTag?: string;
-}
+export type SetupManagerStartedWebhook = Infer<typeof STARTED_WEBHOOK_SCHEMA>;
 
-export interface SetupManagerFinishedWebhook extends Omit<SetupManagerStartedWebhook, 'name' | 'event'> {
-  name: "Finished";
-  event: "com.jamf.setupmanager.finished";
-  duration: number;
-  finished: string;
-  computerName?: string;
-  userEntry?: UserEntry;
-  enrollmentActions?: EnrollmentAction[];
-  uploadThroughput?: number;
-  downloadThroughput?: number;
-}
+export type EnrollmentAction = Infer<typeof ENROLLMENT_ACTION_SCHEMA>;
+
+export type UserEntry = Infer<typeof USER_ENTRY_SCHEMA>;
+
+export type SetupManagerFinishedWebhook = Infer<typeof FINISHED_WEBHOOK_SCHEMA>;
 
 export type SetupManagerWebhook = SetupManagerStartedWebhook | SetupManagerFinishedWebhook;
 
-export interface StoredEvent {
-  payload: SetupManagerWebhook;
-  timestamp: number;
-  eventId: string;
+/**
+ * A Setup Manager event type not in the registry (e.g. one added by a newer
+ * Setup Manager release), stored as received
+ */
+export type GenericWebhook = Infer<typeof GENERIC_WEBHOOK_SCHEMA> & { [field: string]: unknown };
+
+/** Whether a macOS build is a regular release, a beta or a Rapid Security Response */
+export type BuildType = 'release' | 'beta' | 'rsr';
+
+/**
+ * Hardware and OS details derived from the payload at ingest (see enrichment.ts).
+ * Fields are null when they cannot be derived.
+ */
+export interface DeviceEnrichment {
+  /** Apple silicon generation ("M1", "M2", ...), "Apple silicon" if not yet in the table, or "Intel" */
+  chipFamily: string | null;
+  /** Year the model identifier was introduced */
+  modelYear: number | null;
+  /** macOS marketing name, e.g. "Sequoia" */
+  macOSName: string | null;
+  buildType: BuildType | null;
 }
 
-export interface ValidationResult {
-  valid: boolean;
-  error?: string;
+export interface StoredEvent<
+  P extends SetupManagerWebhook | GenericWebhook = SetupManagerWebhook | GenericWebhook,
+> {
+  payload: P;
+  /** Version of the stored record format, see eventVersions.ts */
+  schemaVersion: number;
+  enrichment: DeviceEnrichment;
+  timestamp: number;
+  eventId: string;
+  /** Site label of the webhook token the event was delivered with */
+  site?: string;
 }
 
 /**
- * Required fields for all Setup Manager webhooks
+ * A registered webhook token. Only a hash of the token is stored;
+ * the token itself is shown once, when it is created.
  */
-const REQUIRED_BASE_FIELDS = [
-  'name',
-  'event',
-  'timestamp',
-  'started',
-  'modelName',
-  'modelIdentifier',
-  'macOSBuild',
-  'macOSVersion',
-  'serialNumber',
-  'setupManagerVersion'
-] as const;
+export interface WebhookToken {
+  id: string;
+  name: string;
+  site: string | null;
+  createdAt: number;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
+
+/** What a service token may read: events and sessions, statistics, or everything */
+export type ServiceTokenScope = "events:read" | "stats:read" | "admin";
 
 /**
- * Additional required fields for finished webhooks
+ * A token for scripts that call the API without Cloudflare Access. Like
+ * webhook tokens, only a hash is stored and the token is shown once.
  */
-const REQUIRED_FINISHED_FIELDS = ['duration', 'finished'] as const;
+export interface ServiceToken {
+  id: string;
+  name: string;
+  scopes: ServiceTokenScope[];
+  createdAt: number;
+  /** Null for tokens that do not expire */
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
 
 /**
- * Valid event types
+ * A webhook payload that failed validation, kept in quarantine so it can be
+ * inspected and re-ingested once the validator accepts it
  */
-const VALID_EVENTS = [
-  'com.jamf.setupmanager.started',
-  'com.jamf.setupmanager.finished'
-] as const;
+export interface RejectedPayload {
+  id: string;
+  /** Time (ms) the payload was received */
+  receivedAt: number;
+  /** Validation error that caused the rejection */
+  error: string;
+  /** Raw request body */
+  body: string;
+  /** Selected request headers (user agent, content type, ...) */
+  headers: Record<string, string>;
+  /** Site label of the webhook token the payload was delivered with */
+  site: string | null;
+  /** Time (ms) the payload was re-ingested, if it has been */
+  reingestedAt: number | null;
+  /** ID of the event created by re-ingesting the payload */
+  eventId: string | null;
+}
 
 /**
- * Validates that a value is a non-empty string
+ * Fleet statistics served by /api/stats and pushed to dashboards
  */
-function isNonEmptyString(value: unknown): value is string {
-  return typeof value === 'string' && value.trim().length > 0;
+export interface Stats {
+  total: number;
+  started: number;
+  finished: number;
+  avgDuration: number;
+  /** Percentage of finished enrollments without failed actions */
+  successRate: number;
+  /** Percentage of enrollment actions that finished successfully */
+  actionSuccessRate: number;
+  failedActions: number;
+  /** Duration percentiles (seconds) of finished enrollments */
+  p50Duration: number;
+  p90Duration: number;
+  p99Duration: number;
+  devices: number;
+  lastEventTime: number | null;
+}
+
+/** One bin of the enrollment duration histogram; bounds in seconds */
+export interface DurationBin {
+  label: string;
+  min: number;
+  /** Exclusive upper bound; null for the open-ended last bin */
+  max: number | null;
+  count: number;
+}
+
+/** Dimensions /api/stats can group by: time buckets, model name or macOS version */
+export type StatsGroupBy =
+  | "hour"
+  | "day"
+  | "model"
+  | "macOSVersion"
+  | "chipFamily"
+  | "modelYear"
+  | "macOSName"
+  | "buildType";
+
+export interface StatsGroup extends Stats {
+  /**
+   * Model name, macOS version, enrichment value ("Unknown" if it could not
+   * be derived), or ISO 8601 bucket start for time groupings
+   */
+  key: string;
+}
+
+export interface StatsResponse extends Stats {
+  from: number | null;
+  to: number | null;
+  durationHistogram: DurationBin[];
+  groupBy?: StatsGroupBy;
+  groups?: StatsGroup[];
 }
 
 /**
- * Validates that a value is a valid ISO 8601 timestamp
+ * Lifecycle state of an enrollment session
+ * - in-progress: Started received, no Finished yet
+ * - finished: Finished received and every enrollment action succeeded
+ * - finished-with-failures: Finished received with at least one failed action
+ * - abandoned: never finished, and a newer session exists for the same device
+ * - stalled: still in progress past its configured stall timeout
  */
-function isValidTimestamp(value: unknown): boolean {
-  if (!isNonEmptyString(value)) return false;
-  const date = new Date(value);
-  return !isNaN(date.getTime());
-}
+export type SessionState =
+  | "in-progress"
+  | "finished"
+  | "finished-with-failures"
+  | "abandoned"
+  | "stalled";
 
 /**
- * Validates that a value is a non-negative number
+ * One enrollment run of a device: a Started webhook paired with its
+ * Finished webhook by serialNumber + started timestamp
  */
-function isNonNegativeNumber(value: unknown): value is number {
-  return typeof value === 'number' && value >= 0 && isFinite(value);
+export interface EnrollmentSession {
+  sessionId: string;
+  serialNumber: string;
+  started: string;
+  state: SessionState;
+  startedEvent?: StoredEvent<SetupManagerWebhook>;
+  finishedEvent?: StoredEvent<SetupManagerWebhook>;
+  /** Receive time of the most recent event in the session */
+  lastUpdated: number;
 }
 
 /**
- * Validates an enrollment action object
+ * An open (not yet finished) session tracked by DashboardRoom
+ * for stalled enrollment detection
  */
-function isValidEnrollmentAction(action: unknown): action is EnrollmentAction {
-  if (typeof action !== 'object' || action === null) return false;
-  if (hasDangerousKeys(action)) return false;
-  const obj = action as Record<string, unknown>;
-  return (
-    isNonEmptyString(obj.label) &&
-    (obj.status === 'finished' || obj.status === 'failed')
-  );
+export interface TrackedSession {
+  sessionId: string;
+  serialNumber: string;
+  modelName: string;
+  modelIdentifier: string;
+  macOSVersion: string;
+  started: string;
+  /** Time (ms) after which the session is considered stalled */
+  deadline: number;
+  /** Time (ms) the session was flagged as stalled, if it has been */
+  stalledAt?: number;
 }
 
 /**
- * Validates a UserEntry object
+ * What a notification channel is notified about
+ * - finished: every Finished event
+ * - finished-with-failures: Finished events with at least one failed action
+ * - stalled: an enrollment session was flagged as stalled
  */
-function isValidUserEntry(entry: unknown): entry is UserEntry {
-  if (typeof entry !== 'object' || entry === null) return false;
-  if (hasDangerousKeys(entry)) return false;
-  const obj = entry as Record<string, unknown>;
-
-  // All fields are optional, but if present must be strings
-  const optionalStringFields = ['department', 'computerName', 'userID', 'assetTag'];
-  for (const field of optionalStringFields) {
-    if (obj[field] !== undefined && typeof obj[field] !== 'string') {
-      return false;
-    }
-  }
-  return true;
+export type NotificationTrigger = "finished" | "finished-with-failures" | "stalled";
+
+/** Message format: Slack incoming webhook, Microsoft Teams card or plain JSON */
+export type NotificationChannelType = "slack" | "teams" | "webhook";
+
+/** An outbound notification channel */
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+  /** Target URL; redacted to its origin when listed through the API */
+  url: string;
+  triggers: NotificationTrigger[];
+  /** Message template with {{field}} placeholders; null for the default message */
+  template: string | null;
+  createdAt: number;
+}
+
+export type NotificationDeliveryStatus = "pending" | "delivered" | "failed";
+
+/** One notification in the delivery log */
+export interface NotificationDelivery {
+  id: string;
+  channelId: string;
+  /** Null once the channel has been deleted */
+  channelName: string | null;
+  trigger: NotificationTrigger;
+  /** Event ID or session ID the notification is about */
+  subject: string;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  /** Time (ms) of the next attempt while pending */
+  nextAttemptAt: number | null;
+  /** Error of the most recent failed attempt */
+  lastError: string | null;
+  createdAt: number;
+  deliveredAt: number | null;
 }
 
 /**
- * Property names that could enable prototype pollution if passed through
+ * What an alert rule measures over its window
+ * - action-failure-rate: percentage of enrollment actions that failed
+ * - action-failures: number of failed enrollment actions
+ * - p90-duration: 90th percentile duration of finished enrollments, in minutes
+ * - finished-events: number of Finished events
  */
-const DANGEROUS_KEYS = ['__proto__', 'constructor', 'prototype'] as const;
+export type AlertMetric =
+  | "action-failure-rate"
+  | "action-failures"
+  | "p90-duration"
+  | "finished-events";
+
+export type AlertOperator = "above" | "below";
+
+/** Local hours during which a rule is evaluated */
+export interface BusinessHours {
+  /** Days of the week, 0 (Sunday) to 6 (Saturday) */
+  days: number[];
+  /** First hour of the day, 0–23 */
+  start: number;
+  /** Hour the business day ends, 1–24 */
+  end: number;
+}
+
+/** A threshold on a metric, evaluated continuously by the dashboard room */
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  /** Minutes to look back, or "today" for everything since local midnight */
+  window: number | "today";
+  /** Only count this enrollment action (action metrics only) */
+  action: string | null;
+  businessHours: BusinessHours | null;
+  /** IANA time zone for "today" and business hours */
+  timeZone: string;
+  createdAt: number;
+}
+
+/** An alert raised by a rule; active until `resolvedAt` is set */
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  metric: AlertMetric;
+  message: string;
+  /** Metric value when the alert was raised */
+  value: number;
+  threshold: number;
+  raisedAt: number;
+  resolvedAt: number | null;
+}
+
+/** Record of a device's data being erased on request */
+export interface DeviceErasure {
+  id: string;
+  serialNumber: string;
+  /** Access identity that requested the erasure, when known */
+  requestedBy: string | null;
+  erasedAt: number;
+  /** Number of stored events deleted */
+  events: number;
+  /** Number of quarantined payloads deleted */
+  rejectedPayloads: number;
+  /** Number of notification log entries deleted */
+  notifications: number;
+}
 
 /**
- * Checks an object for prototype pollution keys
+ * What a dashboard user may do: viewers see the dashboard, operators also
+ * manage alert rules and quarantined payloads, admins manage everything
  */
-function hasDangerousKeys(obj: object): boolean {
-  return Object.keys(obj).some((key) =>
-    (DANGEROUS_KEYS as readonly string[]).includes(key)
-  );
-}
+export type Role = "viewer" | "operator" | "admin";
 
 /**
- * Validates a Setup Manager webhook payload
- * Returns validation result with error message if invalid
+ * What an audit log entry records: data being viewed or exported, devices
+ * being erased, and changes to tokens and settings
  */
-export function validateWebhookPayload(payload: unknown): ValidationResult {
-  // Check if payload is an object
-  if (typeof payload !== 'object' || payload === null) {
-    return { valid: false, error: 'Payload must be a non-null object' };
-  }
+export type AuditAction =
+  | "data.view"
+  | "data.export"
+  | "device.erase"
+  | "rejected.reingest"
+  | "webhook-token.create"
+  | "webhook-token.revoke"
+  | "service-token.create"
+  | "service-token.revoke"
+  | "notification-channel.create"
+  | "notification-channel.delete"
+  | "alert-rule.create"
+  | "alert-rule.delete";
+
+/** One entry of the append-only audit log */
+export interface AuditEntry {
+  id: number;
+  time: number;
+  /** Access email or subject, or the service token name; null without Access */
+  actor: string | null;
+  role: Role;
+  action: AuditAction;
+  /** What the action applied to, e.g. a serial number, token ID or API route */
+  target: string | null;
+  /** Action-specific context, e.g. the query of a data view */
+  details: Record<string, unknown> | null;
+}
 
-  // Reject payloads with prototype pollution keys
-  if (hasDangerousKeys(payload)) {
-    return { valid: false, error: 'Payload contains forbidden property names' };
-  }
+/** The signed-in user, as returned by /api/me */
+export interface CurrentUser {
+  /** Null when Cloudflare Access is not configured */
+  email: string | null;
+  role: Role;
+  /** Whether personal payload fields are shown in clear (see PII_POLICY) */
+  seesPersonalData: boolean;
+}
 
-  const obj = payload as Record<string, unknown>;
+export type ValidationIssueCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_value'
+  | 'invalid_format'
+  | 'forbidden_key';
 
-  // Validate event type first
-  if (!VALID_EVENTS.includes(obj.event as typeof VALID_EVENTS[number])) {
-    return {
-      valid: false,
-      error: 'Invalid event type'
-    };
-  }
+/**
+ * One problem found by the validator
+ */
+export interface ValidationIssue {
+  /** Field path, e.g. "enrollmentActions[2].status"; empty for the payload itself */
+  path: string;
+  code: ValidationIssueCode;
+  message: string;
+}
 
-  // Validate required base fields
-  for (const field of REQUIRED_BASE_FIELDS) {
-    if (!isNonEmptyString(obj[field])) {
-      return { valid: false, error: `Missing or invalid required field: ${field}` };
-    }
-  }
+export interface ValidationResult {
+  valid: boolean;
+  /** Message of the first issue, if any */
+  error?: string;
+  issues: ValidationIssue[];
+}
 
-  // Validate timestamps
-  if (!isValidTimestamp(obj.timestamp)) {
-    return { valid: false, error: 'Invalid timestamp format' };
-  }
-  if (!isValidTimestamp(obj.started)) {
-    return { valid: false, error: 'Invalid started timestamp format' };
-  }
+function toResult(issues: ValidationIssue[]): ValidationResult {
+  return issues.length === 0
+    ? { valid: true, issues }
+    : { valid: false, error: issues[0].message, issues };
+}
 
-  // Validate name matches event type
-  if (obj.event === 'com.jamf.setupmanager.started' && obj.name !== 'Started') {
-    return { valid: false, error: 'name must be "Started" for started events' };
-  }
-  if (obj.event === 'com.jamf.setupmanager.finished' && obj.name !== 'Finished') {
-    return { valid: false, error: 'name must be "Finished" for finished events' };
+/**
+ * Validates a Setup Manager webhook payload against the schema of its event type
+ * Collects every problem found; `error` is the message of the first one
+ */
+export function validateWebhookPayload(payload: unknown): ValidationResult {
+  // Check if payload is an object
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return toResult([
+      { path: '', code: 'invalid_type', message: 'Payload must be a non-null object' },
+    ]);
   }
 
-  // Additional validation for finished events
-  if (obj.event === 'com.jamf.setupmanager.finished') {
-    for (const field of REQUIRED_FINISHED_FIELDS) {
-      if (field === 'duration') {
-        if (!isNonNegativeNumber(obj[field])) {
-          return { valid: false, error: 'duration must be a non-negative number' };
-        }
-      } else if (!isNonEmptyString(obj[field])) {
-        return { valid: false, error: `Missing or invalid required field: ${field}` };
-      }
-    }
-
-    if (!isValidTimestamp(obj.finished)) {
-      return { valid: false, error: 'Invalid finished timestamp format' };
-    }
-
-    // Validate optional enrollmentActions array
-    if (obj.enrollmentActions !== undefined) {
-      if (!Array.isArray(obj.enrollmentActions)) {
-        return { valid: false, error: 'enrollmentActions must be an array' };
-      }
-      for (let i = 0; i < obj.enrollmentActions.length; i++) {
-        if (!isValidEnrollmentAction(obj.enrollmentActions[i])) {
-          return { valid: false, error: `Invalid enrollment action at index ${i}` };
-        }
-      }
-    }
-
-    // Validate optional userEntry
-    if (obj.userEntry !== undefined && !isValidUserEntry(obj.userEntry)) {
-      return { valid: false, error: 'Invalid userEntry object' };
-    }
-
-    // Validate optional throughput fields
-    if (obj.uploadThroughput !== undefined && !isNonNegativeNumber(obj.uploadThroughput)) {
-      return { valid: false, error: 'uploadThroughput must be a non-negative number' };
-    }
-    if (obj.downloadThroughput !== undefined && !isNonNegativeNumber(obj.downloadThroughput)) {
-      return { valid: false, error: 'downloadThroughput must be a non-negative number' };
-    }
+  // Reject payloads with prototype pollution keys without looking further
+  if (hasDangerousKeys(payload)) {
+    return toResult([
+      { path: '', code: 'forbidden_key', message: 'Payload contains forbidden property names' },
+    ]);
   }
 
-  // Validate optional string fields
-  const optionalStringFields = ['jamfProVersion', 'jssID', 'computerName'];
-  for (const field of optionalStringFields) {
-    if (obj[field] !== undefined && typeof obj[field] !== 'string') {
-      return { valid: false, error: `${field} must be a string if provided` };
-    }
+  const issues: ValidationIssue[] = [];
+  const event = (payload as Record<string, unknown>).event;
+
+  // Known event types get strict validation, other Setup Manager events the generic schema
+  const schema = getEventSchema(event);
+  if (schema) {
+    validateField(payload, schema, '', issues);
+  } else {
+    issues.push(
+      event === undefined
+        ? { path: 'event', code: 'required', message: 'Missing required field: event' }
+        : { path: 'event', code: 'invalid_value', message: 'Invalid event type' }
+    );
+    // Still report problems with the fields every event shares
+    validateField(payload, BASE_WEBHOOK_SCHEMA, '', issues);
   }
 
-  return { valid: true };
+  return toResult(issues);
 }
 
 /**
  * Type guard to check if a validated payload is a SetupManagerWebhook
  */
 export function isSetupManagerWebhook(payload: unknown): payload is SetupManagerWebhook {
-  return validateWebhookPayload(payload).valid;
+  return validateWebhookPayload(payload).valid && isKnownEventType((payload as GenericWebhook).event);
+}
+
+/**
+ * Type guard for stored payloads with a known event type (Started or Finished)
+ */
+export function isKnownPayload(
+  payload: SetupManagerWebhook | GenericWebhook,
+): payload is SetupManagerWebhook {
+  return isKnownEventType(payload.event);
+}
+
+/**
+ * Type guard for stored events with a known event type (Started or Finished)
+ */
+export function isKnownEvent(event: StoredEvent): event is StoredEvent<SetupManagerWebhook> {
+  return isKnownPayload(event.payload);
 }
 
 // UI types
@@ -266,38 +483,17 @@ export interface FilterState {
   eventType: "all" | "started" | "finished" | "failed";
   macOSVersion: string;
   model: string;
+  chipFamily: string;
+  modelYear: string;
+  macOSName: string;
+  buildType: string;
   timeRange: "hour" | "day" | "week" | "all";
   search: string;
 }
 
-export interface Stats {
-  total: number;
-  started: number;
-  finished: number;
-  avgDuration: number;
-  successRate: number;
-  failedActions: number;
-}
-
 /** Flat webhook shape used by UI components (union fields optional) */
-export interface WebhookPayload {
-  name: "Started" | "Finished";
-  event: "com.jamf.setupmanager.started" | "com.jamf.setupmanager.finished";
-  timestamp: string;
-  started: string;
-  finished?: string;
-  duration?: number;
-  modelName: string;
-  modelIdentifier: string;
-  macOSBuild: string;
-  macOSVersion: string;
-  serialNumber: string;
-  setupManagerVersion: string;
-  computerName?: string;
-  jamfProVersion?: string;
-  jssID?: string;
-  userEntry?: UserEntry;
-  enrollmentActions?: EnrollmentAction[];
-  uploadThroughput?: number;
-  downloadThroughput?: number;
-}
+export type WebhookPayload = Omit<SetupManagerStartedWebhook, 'name' | 'event'> &
+  Partial<Omit<SetupManagerFinishedWebhook, keyof SetupManagerStartedWebhook>> & {
+    name: SetupManagerWebhook['name'];
+    event: SetupManagerWebhook['event'];
+  };
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkWebhookSource, type WebhookSourceEnv } from "./webhookPolicy";
+
+const SUBJECT = "CN=C02XK1JKJG5J,O=Acme";
+const ISSUER = "CN=Acme MDM Device CA,O=Acme";
+
+interface Source {
+  ip?: string;
+  asn?: number;
+  cert?: Partial<IncomingRequestCfProperties["tlsClientAuth"]> | null;
+}
+
+/** A webhook request as the Worker sees it, with the cf properties Cloudflare would add */
+function webhookRequest({ ip, asn, cert }: Source = {}): Request {
+  const request = new Request("https://hud.example.com/webhook", {
+    method: "POST",
+    headers: ip ? { "CF-Connecting-IP": ip } : {},
+  });
+  const tlsClientAuth =
+    cert === null
+      ? undefined
+      : {
+          certPresented: "1",
+          certVerified: "SUCCESS",
+          certRevoked: "0",
+          certSubjectDN: SUBJECT,
+          certIssuerDN: ISSUER,
+          ...cert,
+        };
+  return Object.assign(request, { cf: { asn, tlsClientAuth } });
+}
+
+function check(env: WebhookSourceEnv, source?: Source) {
+  return checkWebhookSource(webhookRequest(source), env);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("checkWebhookSource", () => {
+  it("allows everything when no policy is configured", () => {
+    expect(check({}, { cert: null })).toEqual({ allowed: true });
+  });
+
+  describe("network policy", () => {
+    const env = { WEBHOOK_ALLOWED_CIDRS: "192.0.2.0/24, 2001:db8::/32, 198.51.100.7" };
+
+    it("allows addresses in any listed range", () => {
+      for (const ip of ["192.0.2.1", "192.0.2.255", "2001:db8:1::5", "198.51.100.7"]) {
+        expect(check(env, { ip }), ip).toEqual({ allowed: true });
+      }
+    });
+
+    it("rejects addresses outside the ranges", () => {
+      for (const ip of ["192.0.3.1", "198.51.100.8", "2001:db9::1", "::1"]) {
+        expect(check(env, { ip }).allowed, ip).toBe(false);
+      }
+      expect(check(env)).toEqual({ allowed: false, error: "source unknown (AS?) is not allowed" });
+    });
+
+    it("treats IPv4-mapped IPv6 addresses as IPv4", () => {
+      expect(check(env, { ip: "::ffff:192.0.2.9" })).toEqual({ allowed: true });
+      expect(check(env, { ip: "::ffff:c000:209" })).toEqual({ allowed: true });
+    });
+
+    it("parses IPv6 addresses with and without compression", () => {
+      const v6 = { WEBHOOK_ALLOWED_CIDRS: "2001:db8:0:0:0:0:0:1, fe80::/10" };
+      expect(check(v6, { ip: "2001:db8::1" })).toEqual({ allowed: true });
+      expect(check(v6, { ip: "fe80::1:2:3:4" })).toEqual({ allowed: true });
+      expect(check(v6, { ip: "2001:db8::2" }).allowed).toBe(false);
+      expect(check(v6, { ip: "2001:db8::1::2" }).allowed).toBe(false);
+    });
+
+    it("allows listed ASNs, with or without the AS prefix", () => {
+      const asns = { WEBHOOK_ALLOWED_ASNS: "13335, as64496" };
+      expect(check(asns, { ip: "203.0.113.1", asn: 13335 })).toEqual({ allowed: true });
+      expect(check(asns, { ip: "203.0.113.1", asn: 64496 })).toEqual({ allowed: true });
+      expect(check(asns, { ip: "203.0.113.1", asn: 64497 })).toEqual({
+        allowed: false,
+        error: "source 203.0.113.1 (AS64497) is not allowed",
+      });
+    });
+
+    it("allows a request matching either the ranges or the ASNs", () => {
+      const both = { ...env, WEBHOOK_ALLOWED_ASNS: "13335" };
+      expect(check(both, { ip: "192.0.2.1", asn: 64497 })).toEqual({ allowed: true });
+      expect(check(both, { ip: "203.0.113.1", asn: 13335 })).toEqual({ allowed: true });
+    });
+
+    it("skips invalid entries and logs each of them once", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      const invalid = {
+        WEBHOOK_ALLOWED_CIDRS: "10.0.0.0/8, 10.0.0.256/32, 10.0.0.0/33, ::/129, 1.2.3.4/8/8",
+        WEBHOOK_ALLOWED_ASNS: "AS13335, ASN13335",
+      };
+      expect(check(invalid, { ip: "10.1.2.3" })).toEqual({ allowed: true });
+      expect(check(invalid, { ip: "11.0.0.1", asn: 13335 })).toEqual({ allowed: true });
+      expect(check(invalid, { ip: "11.0.0.1", asn: 13335 })).toEqual({ allowed: true });
+      expect(error).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe("client certificate policy", () => {
+    const env = {
+      WEBHOOK_REQUIRE_CLIENT_CERT: "true",
+      WEBHOOK_CLIENT_CERT_SUBJECT: "CN=[A-Z0-9]{10,12},O=Acme",
+      WEBHOOK_CLIENT_CERT_ISSUER: "CN=Acme MDM Device CA,O=Acme",
+    };
+
+    it("allows verified certificates matching both patterns", () => {
+      expect(check(env)).toEqual({ allowed: true });
+    });
+
+    it("rejects missing, unverified and revoked certificates", () => {
+      expect(check(env, { cert: null })).toEqual({
+        allowed: false,
+        error: "no client certificate presented",
+      });
+      expect(check(env, { cert: { certPresented: "0" } }).allowed).toBe(false);
+      expect(check(env, { cert: { certVerified: "FAILED:self signed certificate" } })).toEqual({
+        allowed: false,
+        error: "client certificate not verified (FAILED:self signed certificate)",
+      });
+      expect(check(env, { cert: { certRevoked: "1" } })).toEqual({
+        allowed: false,
+        error: "client certificate revoked",
+      });
+    });
+
+    it("requires patterns to match the whole DN", () => {
+      for (const certIssuerDN of [
+        "CN=Acme MDM Device CA,O=Acme Evil Corp",
+        "CN=Evil CA,OU=CN=Acme MDM Device CA,O=Acme",
+      ]) {
+        expect(check(env, { cert: { certIssuerDN } }).allowed, certIssuerDN).toBe(false);
+      }
+      expect(check(env, { cert: { certSubjectDN: "CN=C02XK1JKJG5J,O=Acme,OU=x" } })).toEqual({
+        allowed: false,
+        error: 'client certificate subject "CN=C02XK1JKJG5J,O=Acme,OU=x" not allowed',
+      });
+    });
+
+    it("rejects every certificate when a pattern is invalid, logging it once", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      const invalid = { ...env, WEBHOOK_CLIENT_CERT_ISSUER: "CN=(Acme" };
+      expect(check(invalid).allowed).toBe(false);
+      expect(check(invalid).allowed).toBe(false);
+      expect(error).toHaveBeenCalledTimes(1);
+    });
+
+    it("is checked after the network policy", () => {
+      const both = { ...env, WEBHOOK_ALLOWED_CIDRS: "192.0.2.0/24" };
+      expect(check(both, { ip: "192.0.2.1" })).toEqual({ allowed: true });
+      expect(check(both, { ip: "192.0.2.1", cert: { certRevoked: "1" } }).allowed).toBe(false);
+      expect(check(both, { ip: "203.0.113.1" }).allowed).toBe(false);
+    });
+  });
+});
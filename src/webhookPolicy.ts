@@ -0,0 +1,248 @@
+/**
+ * Optional source policies for the webhook endpoint
+ *
+ * The bearer token (or signature) proves a request came from a managed
+ * device only as long as the secret stays on those devices. These checks
+ * narrow down where webhooks may come from at all:
+ *
+ * - WEBHOOK_ALLOWED_CIDRS / WEBHOOK_ALLOWED_ASNS: comma-separated IPv4/IPv6
+ *   ranges and autonomous system numbers. A request is accepted when its
+ *   client address is in any listed range or its ASN is listed.
+ * - WEBHOOK_REQUIRE_CLIENT_CERT: "true" requires a client certificate that
+ *   Cloudflare verified during the mTLS handshake. WEBHOOK_CLIENT_CERT_SUBJECT
+ *   and WEBHOOK_CLIENT_CERT_ISSUER are regular expressions the certificate's
+ *   whole subject and issuer DN must match.
+ *
+ * Misconfigured entries never widen a policy: invalid ranges or ASNs are
+ * skipped, and an invalid pattern rejects every certificate.
+ */
+
+export interface WebhookSourceEnv {
+  WEBHOOK_ALLOWED_CIDRS?: string;
+  WEBHOOK_ALLOWED_ASNS?: string;
+  WEBHOOK_REQUIRE_CLIENT_CERT?: string;
+  WEBHOOK_CLIENT_CERT_SUBJECT?: string;
+  WEBHOOK_CLIENT_CERT_ISSUER?: string;
+}
+
+export type SourceCheckResult = { allowed: true } | { allowed: false; error: string };
+
+interface Address {
+  version: 4 | 6;
+  value: bigint;
+}
+
+interface Cidr extends Address {
+  prefix: number;
+}
+
+const ADDRESS_BITS = { 4: 32, 6: 128 } as const;
+
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+}
+
+function parseIpv6(ip: string): bigint | null {
+  const halves = ip.split("::");
+  if (halves.length > 2) return null;
+
+  const toGroups = (half: string): string[] | null => {
+    if (half === "") return [];
+    const groups = half.split(":");
+    // A trailing dotted quad (e.g. ::ffff:192.0.2.1) fills the last two groups
+    const last = groups[groups.length - 1];
+    if (last.includes(".")) {
+      const v4 = parseIpv4(last);
+      if (v4 === null) return null;
+      groups.splice(-1, 1, (v4 >> 16n).toString(16), (v4 & 0xffffn).toString(16));
+    }
+    return groups.every((group) => /^[0-9a-fA-F]{1,4}$/.test(group)) ? groups : null;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) return null;
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  let value = 0n;
+  for (const group of [...head, ...Array<string>(missing).fill("0"), ...tail]) {
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+/** IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are treated as the IPv4 address */
+function parseAddress(ip: string): Address | null {
+  if (ip.includes(":")) {
+    const value = parseIpv6(ip);
+    if (value === null) return null;
+    if (value >> 32n === 0xffffn) return { version: 4, value: value & 0xffffffffn };
+    return { version: 6, value };
+  }
+  const value = parseIpv4(ip);
+  return value === null ? null : { version: 4, value };
+}
+
+/** "192.0.2.0/24", "2001:db8::/32" or a single address */
+function parseCidr(entry: string): Cidr | null {
+  const [ip, prefixPart, ...rest] = entry.split("/");
+  if (rest.length > 0) return null;
+  const address = parseAddress(ip);
+  if (!address) return null;
+
+  const bits = ADDRESS_BITS[address.version];
+  if (prefixPart === undefined) return { ...address, prefix: bits };
+  if (!/^\d{1,3}$/.test(prefixPart) || Number(prefixPart) > bits) return null;
+  return { ...address, prefix: Number(prefixPart) };
+}
+
+function inCidr(address: Address, cidr: Cidr): boolean {
+  if (address.version !== cidr.version) return false;
+  const hostBits = BigInt(ADDRESS_BITS[cidr.version] - cidr.prefix);
+  return address.value >> hostBits === cidr.value >> hostBits;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parsed WEBHOOK_ALLOWED_CIDRS / WEBHOOK_ALLOWED_ASNS by raw value, so each
+ * list is parsed, and its invalid entries logged, once per isolate
+ */
+const parsedCidrs = new Map<string, Cidr[]>();
+const parsedAsns = new Map<string, number[]>();
+
+function parseCidrs(value: string): Cidr[] {
+  const cached = parsedCidrs.get(value);
+  if (cached) return cached;
+
+  const cidrs: Cidr[] = [];
+  for (const entry of splitList(value)) {
+    const cidr = parseCidr(entry);
+    if (cidr) {
+      cidrs.push(cidr);
+    } else {
+      console.error(`WEBHOOK_ALLOWED_CIDRS: ignoring invalid range "${entry}"`);
+    }
+  }
+  parsedCidrs.set(value, cidrs);
+  return cidrs;
+}
+
+function parseAsns(value: string): number[] {
+  const cached = parsedAsns.get(value);
+  if (cached) return cached;
+
+  const asns: number[] = [];
+  for (const entry of splitList(value)) {
+    // Accept both "13335" and "AS13335"
+    const match = entry.match(/^(?:AS)?(\d{1,10})$/i);
+    if (match) {
+      asns.push(Number(match[1]));
+    } else {
+      console.error(`WEBHOOK_ALLOWED_ASNS: ignoring invalid ASN "${entry}"`);
+    }
+  }
+  parsedAsns.set(value, asns);
+  return asns;
+}
+
+/** Compiled DN patterns by raw value; null for invalid ones, which are logged once */
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Whether all of `dn` matches the pattern variable `name`; unset patterns
+ * match anything. Anchoring keeps "O=Acme" from matching "O=Acme Evil Corp".
+ */
+function matchesPattern(
+  env: WebhookSourceEnv,
+  name: "WEBHOOK_CLIENT_CERT_SUBJECT" | "WEBHOOK_CLIENT_CERT_ISSUER",
+  dn: string,
+): boolean {
+  const pattern = env[name];
+  if (!pattern) return true;
+
+  let regex = compiledPatterns.get(pattern);
+  if (regex === undefined) {
+    try {
+      regex = new RegExp(`^(?:${pattern})$`);
+    } catch {
+      console.error(`${name} is not a valid regular expression; rejecting all certificates`);
+      regex = null;
+    }
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex !== null && regex.test(dn);
+}
+
+function checkNetwork(
+  request: Request,
+  env: WebhookSourceEnv,
+  cf: IncomingRequestCfProperties | undefined,
+): string | null {
+  if (!env.WEBHOOK_ALLOWED_CIDRS && !env.WEBHOOK_ALLOWED_ASNS) return null;
+
+  const ip = request.headers.get("CF-Connecting-IP");
+  const address = ip ? parseAddress(ip) : null;
+  if (address && env.WEBHOOK_ALLOWED_CIDRS) {
+    if (parseCidrs(env.WEBHOOK_ALLOWED_CIDRS).some((cidr) => inCidr(address, cidr))) {
+      return null;
+    }
+  }
+
+  const asn = cf?.asn;
+  if (asn !== undefined && env.WEBHOOK_ALLOWED_ASNS) {
+    if (parseAsns(env.WEBHOOK_ALLOWED_ASNS).includes(asn)) return null;
+  }
+
+  return `source ${ip ?? "unknown"} (AS${asn ?? "?"}) is not allowed`;
+}
+
+function checkClientCertificate(
+  env: WebhookSourceEnv,
+  cf: IncomingRequestCfProperties | undefined,
+): string | null {
+  if (env.WEBHOOK_REQUIRE_CLIENT_CERT !== "true") return null;
+
+  // Only populated when mTLS is enabled for the hostname the request came in on
+  const auth = cf?.tlsClientAuth;
+  if (!auth || auth.certPresented !== "1") {
+    return "no client certificate presented";
+  }
+  if (auth.certVerified !== "SUCCESS") {
+    return `client certificate not verified (${auth.certVerified})`;
+  }
+  if (auth.certRevoked === "1") {
+    return "client certificate revoked";
+  }
+  if (!matchesPattern(env, "WEBHOOK_CLIENT_CERT_SUBJECT", auth.certSubjectDN)) {
+    return `client certificate subject "${auth.certSubjectDN}" not allowed`;
+  }
+  if (!matchesPattern(env, "WEBHOOK_CLIENT_CERT_ISSUER", auth.certIssuerDN)) {
+    return `client certificate issuer "${auth.certIssuerDN}" not allowed`;
+  }
+  return null;
+}
+
+/**
+ * Check a webhook request against the configured source policies.
+ * With none configured, every request is allowed.
+ */
+export function checkWebhookSource(request: Request, env: WebhookSourceEnv): SourceCheckResult {
+  const cf = request.cf as IncomingRequestCfProperties | undefined;
+  const error = checkNetwork(request, env, cf) ?? checkClientCertificate(env, cf);
+  return error ? { allowed: false, error } : { allowed: true };
+}
@@ -15,6 +15,8 @@ export default defineConfig({
       "/webhook": "http://localhost:8787",
       "/api": "http://localhost:8787",
       "/ws": { target: "ws://localhost:8787", ws: true },
+      "^/t/[^/]+/api": "http://localhost:8787",
+      "^/t/[^/]+/ws": { target: "ws://localhost:8787", ws: true },
     },
   },
 });